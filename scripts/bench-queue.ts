@@ -0,0 +1,140 @@
+/**
+ * Benchmark of the job queue's Redis access: round-trips and time for a scrape, a dashboard
+ * refresh and an auto-post run, at a few queue sizes. Round-trips should stay the same as
+ * the queue grows.
+ *
+ * The Upstash client talks to Redis over REST, so run a local Redis behind
+ * serverless-redis-http (https://github.com/hiett/serverless-redis-http):
+ *
+ *   docker run -d --name bench-redis -p 6379:6379 redis
+ *   docker run -d --name bench-srh -p 8079:80 -e SRH_MODE=env -e SRH_TOKEN=local \
+ *     -e SRH_CONNECTION_STRING=redis://host.docker.internal:6379 hiett/serverless-redis-http
+ *   UPSTASH_REDIS_REST_URL=http://localhost:8079 UPSTASH_REDIS_REST_TOKEN=local npx tsx scripts/bench-queue.ts
+ *
+ * The database is flushed before each queue size, so only local URLs are accepted.
+ * Options: --sizes=30,300 (jobs queued before the measured steps), --runs=3
+ */
+
+interface StepResult {
+  queued: number;
+  step: string;
+  roundTrips: number;
+  ms: number;
+}
+
+const WORDS = (
+  'account manage sales engineer develop design support customer service marketing finance ' +
+  'report analyse build lead team project plan operate maintain deliver review test deploy ' +
+  'client partner growth data system network secure train recruit audit budget forecast'
+).split(' ');
+
+function option(name: string, fallback: string): string {
+  const arg = process.argv.find((a) => a.startsWith(`--${name}=`));
+  return arg ? arg.slice(name.length + 3) : fallback;
+}
+
+/** Deterministic pseudo-random numbers, so every run benchmarks the same jobs */
+function random(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    return state / 2147483648;
+  };
+}
+
+function sampleJobs(count: number, seed: number) {
+  const next = random(seed);
+  const pick = () => WORDS[Math.floor(next() * WORDS.length)];
+  return Array.from({ length: count }, (_, i) => {
+    const id = `bench-${seed}-${i}`;
+    return {
+      id,
+      source: 'bench',
+      title: `${pick()} ${pick()} officer`,
+      company: `Company ${seed}-${i}`,
+      location: 'Lagos',
+      jobType: 'Full Time',
+      description: Array.from({ length: 120 }, pick).join(' '),
+      applyUrl: `https://example.com/apply/${id}`,
+      sourceUrl: `https://example.com/jobs/${id}`,
+      scrapedAt: new Date().toISOString(),
+    };
+  });
+}
+
+async function main() {
+  const url = process.env.UPSTASH_REDIS_REST_URL ?? '';
+  if (!/^https?:\/\/(localhost|127\.0\.0\.1|\[::1\])(:\d+)?\/?$/.test(url)) {
+    console.error('Set UPSTASH_REDIS_REST_URL to a local serverless-redis-http URL (the benchmark flushes the database)');
+    process.exit(1);
+  }
+
+  // Count REST requests: each one is a round-trip, whether it carries one command or a pipeline
+  let roundTrips = 0;
+  const fetchRequest = globalThis.fetch;
+  globalThis.fetch = (input, init) => {
+    roundTrips++;
+    return fetchRequest(input, init);
+  };
+
+  // Imported after the env check, since the client reads the env when it loads
+  const { redis } = await import('../src/lib/redis');
+  const queue = await import('../src/lib/jobQueue');
+
+  const sizes = option('sizes', '30,300').split(',').map(Number).filter((n) => n > 0);
+  const runs = Math.max(1, Number(option('runs', '3')));
+  const results: StepResult[] = [];
+
+  for (const size of sizes) {
+    for (let run = 0; run < runs; run++) {
+      await redis.flushdb();
+      await queue.addJobsToQueue(sampleJobs(size, 1000 + run));
+      // One-off migrations run on first use
+      await queue.getQueueStats();
+
+      const scrape = sampleJobs(30, 2000 + run);
+      const steps: [string, () => Promise<unknown>][] = [
+        ['scrape: queue 30 new jobs', () => queue.addJobsToQueue(scrape)],
+        ['scrape: 30 known jobs', () => queue.addJobsToQueue(scrape)],
+        ['dashboard: queued jobs', () => queue.getQueueStats()],
+        ['auto-post: load queue', () => queue.getUnpostedJobs()],
+        ['auto-post: mark 2 posted', () => queue.markAsPosted(scrape.slice(0, 2).map((j) => j.id))],
+        ['auto-post: hold 2 for review', () => queue.holdJobsForReview(scrape.slice(2, 4))],
+        ['auto-post: skip 2', () => queue.skipJobs(scrape.slice(4, 6).map((j) => j.id), 'Benchmark')],
+        ['dashboard: posted jobs', () => queue.getQueueStats({ state: 'posted' })],
+      ];
+
+      for (const [step, fn] of steps) {
+        roundTrips = 0;
+        const start = performance.now();
+        await fn();
+        results.push({ queued: size, step, roundTrips, ms: performance.now() - start });
+      }
+    }
+  }
+
+  // Median time over the runs; round-trips don't vary between runs
+  const rows = new Map<string, StepResult[]>();
+  for (const r of results) {
+    const key = `${r.queued}|${r.step}`;
+    rows.set(key, [...(rows.get(key) ?? []), r]);
+  }
+  console.table(
+    Array.from(rows.values()).map((group) => {
+      const times = group.map((r) => r.ms).sort((a, b) => a - b);
+      return {
+        queued: group[0].queued,
+        step: group[0].step,
+        roundTrips: group[0].roundTrips,
+        medianMs: Math.round(times[Math.floor(times.length / 2)]),
+      };
+    })
+  );
+
+  await redis.flushdb();
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
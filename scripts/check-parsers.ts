@@ -0,0 +1,114 @@
+/**
+ * Offline regression check for the job source parsers. Each HTML page saved under
+ * fixtures/parsers/<source>/ is run through that source's parseJobPage and compared with the
+ * .json file of the same name: { "url": the page's URL, "job": the expected ScrapedJob or null }.
+ * scrapedAt is the parse time, so it is left out of the expected job.
+ *
+ *   npm run check:parsers               compare every fixture; exits 1 on any difference
+ *   npm run check:parsers -- --update   rewrite the expected jobs from the current output
+ *
+ * To add a fixture, save the page as <name>.html, write <name>.json with its "url", run with
+ * --update and check the generated job by hand before committing it.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { getJobSource } from '../src/lib/sources';
+import { createCareerPageSource } from '../src/lib/sources/careerPages';
+import type { JobSource } from '../src/lib/sources';
+import type { ScrapedJob } from '../src/lib/scraper';
+
+const FIXTURES_DIR = path.join(__dirname, '..', 'fixtures', 'parsers');
+
+/** Career page sources are configured per company, so their fixtures use this example one */
+const EXAMPLE_CAREER_PAGE = createCareerPageSource({
+  name: 'careers-example',
+  company: 'Acme Ltd',
+  listingsUrl: 'https://acme-example.ng/careers',
+  jobLinkSelector: 'a.job-link',
+});
+
+interface Fixture {
+  url: string;
+  job: Omit<ScrapedJob, 'scrapedAt'> | null;
+}
+
+function sourceFor(name: string): JobSource | undefined {
+  return name === EXAMPLE_CAREER_PAGE.name ? EXAMPLE_CAREER_PAGE : getJobSource(name);
+}
+
+function parseFixture(source: JobSource, html: string, url: string): Fixture['job'] {
+  const job = source.parseJobPage(html, url);
+  if (!job) return null;
+  const expected: Partial<ScrapedJob> = { ...job };
+  delete expected.scrapedAt;
+  return expected as Omit<ScrapedJob, 'scrapedAt'>;
+}
+
+/**
+ * List the fields that differ between the expected and parsed job
+ */
+function diffJobs(expected: Fixture['job'], actual: Fixture['job']): string[] {
+  if (!expected || !actual) {
+    return expected === actual ? [] : [`job: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`];
+  }
+  const fields = new Set([...Object.keys(expected), ...Object.keys(actual)]);
+  const diffs: string[] = [];
+  for (const field of fields) {
+    const want = JSON.stringify(expected[field as keyof typeof expected]);
+    const got = JSON.stringify(actual[field as keyof typeof actual]);
+    if (want !== got) diffs.push(`${field}: expected ${want}, got ${got}`);
+  }
+  return diffs;
+}
+
+function main() {
+  const update = process.argv.includes('--update');
+  let checked = 0;
+  let failed = 0;
+
+  for (const sourceName of fs.readdirSync(FIXTURES_DIR).sort()) {
+    const source = sourceFor(sourceName);
+    const dir = path.join(FIXTURES_DIR, sourceName);
+    if (!source) {
+      console.error(`FAIL ${sourceName}: no job source with this name`);
+      failed++;
+      continue;
+    }
+
+    for (const file of fs.readdirSync(dir).filter((f) => f.endsWith('.html')).sort()) {
+      const name = `${sourceName}/${file.replace(/\.html$/, '')}`;
+      const expectedPath = path.join(dir, file.replace(/\.html$/, '.json'));
+      checked++;
+
+      if (!fs.existsSync(expectedPath)) {
+        console.error(`FAIL ${name}: missing ${path.basename(expectedPath)} (needs at least a "url")`);
+        failed++;
+        continue;
+      }
+
+      const fixture = JSON.parse(fs.readFileSync(expectedPath, 'utf8')) as Fixture;
+      const actual = parseFixture(source, fs.readFileSync(path.join(dir, file), 'utf8'), fixture.url);
+
+      if (update) {
+        fs.writeFileSync(expectedPath, `${JSON.stringify({ url: fixture.url, job: actual }, null, 2)}\n`);
+        console.log(`UPDATED ${name}`);
+        continue;
+      }
+
+      const diffs = diffJobs(fixture.job ?? null, actual);
+      if (diffs.length === 0) {
+        console.log(`ok   ${name}`);
+      } else {
+        failed++;
+        console.error(`FAIL ${name}`);
+        for (const diff of diffs) console.error(`       ${diff}`);
+      }
+    }
+  }
+
+  console.log(`\n${checked} fixture(s), ${failed} failed`);
+  if (failed > 0) process.exit(1);
+}
+
+main();
@@ -0,0 +1,57 @@
+/**
+ * Offline check for the scam risk text rules: each case lists the signals a description must
+ * raise, and the check fails when a listed signal is missing or an unlisted one is raised.
+ *
+ *   npm run check:scam-risk   exits 1 on any difference
+ */
+
+import { assessScamRisk } from '../src/lib/scamRisk';
+
+interface Case {
+  description: string;
+  signals: string[];
+}
+
+const CASES: Case[] = [
+  // Reassurances that mention fees or bank details must not count against the employer
+  { description: 'Please note: we do not charge any application fee.', signals: [] },
+  { description: 'There is no application fee for this role.', signals: [] },
+  { description: 'Candidates will never be asked to pay a fee at any stage of recruitment.', signals: [] },
+  { description: 'Beware of fraudsters: we will never ask for BVN or bank details.', signals: [] },
+  { description: 'This recruitment is free of charge and there is no registration fee.', signals: [] },
+
+  // The same phrases asked for outright
+  { description: 'Shortlisted candidates will pay a registration fee of N5,000.', signals: ['upfront-fee'] },
+  { description: 'Send your BVN and bank account details to get started.', signals: ['financial-details'] },
+  { description: 'No interview needed, just pay the processing fee to start.', signals: ['too-good', 'upfront-fee'] },
+  { description: 'We do not charge agents. Pay the form fee at any bank.', signals: ['upfront-fee'] },
+  { description: 'There is no fee but send your bank details to get started.', signals: ['financial-details'] },
+  { description: 'No fee is charged to apply and you only need to send your BVN.', signals: ['financial-details'] },
+
+  // Only free email providers, not company domains that start with the same label
+  { description: 'Send your CV to hr@mail.company.ng.', signals: [] },
+  { description: 'Send your CV to acme.jobs@gmail.com.', signals: ['free-mail'] },
+];
+
+function main() {
+  let failed = 0;
+  for (const { description, signals } of CASES) {
+    const raised = assessScamRisk({ title: 'Sales Executive', company: 'Acme Ltd', description, applyUrl: 'https://acme-example.ng/careers' })
+      .signals.map((signal) => signal.id);
+    const missing = signals.filter((id) => !raised.includes(id));
+    const unexpected = raised.filter((id) => !signals.includes(id));
+    if (missing.length === 0 && unexpected.length === 0) {
+      console.log(`ok   ${description}`);
+    } else {
+      failed++;
+      console.error(`FAIL ${description}`);
+      if (missing.length > 0) console.error(`       missing: ${missing.join(', ')}`);
+      if (unexpected.length > 0) console.error(`       unexpected: ${unexpected.join(', ')}`);
+    }
+  }
+
+  console.log(`\n${CASES.length} case(s), ${failed} failed`);
+  if (failed > 0) process.exit(1);
+}
+
+main();
@@ -1,10 +1,26 @@
 import { NextResponse } from 'next/server';
 import { Receiver } from '@upstash/qstash';
-import { getTodaysUnpostedJobs, markAsPosted } from '@/lib/jobQueue';
-import { isJobExcluded } from '@/lib/excludedJobs';
+import { getRecentlyPostedJobs, getUnpostedJobs, holdJobsForReview, markAsPosted, skipJobs } from '@/lib/jobQueue';
+import type { ScrapedJob } from '@/lib/scraper';
+import { getPostingSkipReason } from '@/lib/excludedJobs';
 import { formatConciseTwitterJob, formatConciseTelegramJob, ConciseJobData } from '@/lib/utils';
 import { postToTwitter, getTweetUrl, getTrendingHashtags } from '@/lib/twitter';
-import { postToTelegram } from '@/lib/telegram';
+import { postToCategoryChannel, postToTelegram } from '@/lib/telegram';
+import { CompanyProfile, getJobCompanyProfile } from '@/lib/companies';
+import { categoryOf } from '@/lib/categories';
+import { qualificationsOf } from '@/lib/qualifications';
+import { assessScamRisk, needsReview } from '@/lib/scamRisk';
+import { rankJobs, RankedJob } from '@/lib/ranking';
+import { getOpenSlot, getUpcomingSlots, releaseSlotPosts, reserveSlotPosts } from '@/lib/schedule';
+
+/** Jobs posted by a manual run outside the schedule */
+const MANUAL_POST_COUNT = 2;
+
+/** Posts from this far back count against a job's category and company diversity */
+const DIVERSITY_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+/** Runners-up listed in the dry-run preview */
+const RUNNERS_UP = 5;
 
 /**
  * Get QStash Receiver - lazy initialization to ensure env vars are available
@@ -16,6 +32,40 @@ function getReceiver() {
   });
 }
 
+/**
+ * Build the post data for a job, with its company's "About the company" when a profile was fetched
+ */
+function toConciseJob(job: ScrapedJob, company: CompanyProfile | null): ConciseJobData {
+  return {
+    id: job.id,
+    title: job.title,
+    company: job.company,
+    location: job.location,
+    jobType: job.jobType,
+    description: job.description,
+    applyUrl: job.applyUrl,
+    sourceUrl: job.sourceUrl,
+    deadline: job.deadline,
+    salary: job.salary,
+    companyAbout: company?.description,
+    locations: job.locations,
+    category: categoryOf(job),
+    qualifications: qualificationsOf(job),
+  };
+}
+
+/**
+ * A ranked job as shown in the dry-run preview: its score and what each factor added
+ */
+function explainRanking({ job, score, reasons }: RankedJob<ScrapedJob>) {
+  return {
+    jobId: job.id,
+    title: `${job.title} at ${job.company}`,
+    score,
+    reasons,
+  };
+}
+
 /**
  * Verify the request is from QStash (for POST) or allow GET requests (from dashboard)
  */
@@ -60,8 +110,10 @@ async function verifyRequest(request: Request): Promise<boolean> {
 /**
  * POST /api/auto-post (QStash uses POST)
  * GET /api/auto-post (for manual/dashboard triggers)
- * Posts up to 2 unposted jobs from today's queue to Twitter and Telegram.
- * Skips if no jobs available.
+ * During a posting slot (see lib/schedule), posts the slot's number of best-ranked queued jobs
+ * (see rankJobs) to Twitter and Telegram; outside a slot, or once the slot is filled, does nothing.
+ * ?force=true posts now regardless of the schedule (Post Now on the dashboard).
+ * ?dryRun=true previews the open or next slot's posts with why each job was picked.
  */
 export async function POST(request: Request) {
   const isValid = await verifyRequest(request);
@@ -82,21 +134,60 @@ export async function GET(request: Request) {
 }
 
 async function handleAutoPost(requestUrl: string) {
-  const dryRun = new URL(requestUrl).searchParams.get('dryRun') === 'true';
+  const params = new URL(requestUrl).searchParams;
+  const dryRun = params.get('dryRun') === 'true';
+  const force = params.get('force') === 'true';
   try {
-    console.log('Starting auto-post...');
+    const slot = await getOpenSlot();
+    const nextSlot = slot && slot.remaining > 0 ? null : (await getUpcomingSlots(1))[0] ?? null;
+    if (!slot?.remaining && !dryRun && !force) {
+      const message = slot ? `Slot ${slot.time} already filled` : 'Not in a posting slot';
+      console.log(`${message}, skipping this cycle`);
+      return NextResponse.json({ success: true, message, posted: 0, nextSlot });
+    }
+    const postCount = slot?.remaining || (dryRun && nextSlot?.jobs) || MANUAL_POST_COUNT;
+
+    console.log(`Starting auto-post${slot?.remaining ? ` for the ${slot.time} slot` : ''}...`);
 
-    // Get all unposted jobs, filter excluded, then take 2 for posting
-    const jobs = await getTodaysUnpostedJobs(10, true);
-    const postableJobs = jobs.filter((j) => !isJobExcluded(j.title)).slice(0, 2);
+    // Get all queued jobs (closing-soon first, then longest waiting) and re-score scam risk, so rule changes apply to queued jobs
+    const jobs = (await getUnpostedJobs()).map((j) => ({ ...j, scamRisk: assessScamRisk(j) }));
 
-    if (postableJobs.length === 0) {
+    // Likely scams are held for manual review instead of posted
+    const heldJobs = jobs.filter((j) => needsReview(j, j.scamRisk));
+    const held = heldJobs.map((j) => ({
+      jobId: j.id,
+      title: `${j.title} at ${j.company}`,
+      score: j.scamRisk.score,
+      reasons: j.scamRisk.signals.map((signal) => signal.reason),
+    }));
+    if (heldJobs.length > 0 && !dryRun) {
+      await holdJobsForReview(heldJobs);
+      console.log(`Held ${heldJobs.length} job(s) for scam review`);
+    }
+
+    // Excluded, underpaid and out-of-area jobs leave the queue as skipped; the rest are ranked for posting
+    const candidates = jobs.filter((j) => !needsReview(j, j.scamRisk));
+    const skipReasons = new Map(candidates.map((j) => [j.id, getPostingSkipReason(j)]));
+    const skippedJobs = candidates.filter((j) => skipReasons.get(j.id));
+    if (skippedJobs.length > 0 && !dryRun) {
+      for (const reason of new Set(skippedJobs.map((j) => skipReasons.get(j.id)!))) {
+        await skipJobs(skippedJobs.filter((j) => skipReasons.get(j.id) === reason).map((j) => j.id), reason);
+      }
+      console.log(`Skipped ${skippedJobs.length} job(s) that don't meet the posting rules`);
+    }
+    const recentlyPosted = await getRecentlyPostedJobs(Date.now() - DIVERSITY_WINDOW_MS);
+    const ranked = rankJobs(candidates.filter((j) => !skipReasons.get(j.id)), postCount, recentlyPosted);
+    const picks = ranked.slice(0, postCount);
+
+    if (picks.length === 0) {
       console.log('No unposted jobs available, skipping this cycle');
       return NextResponse.json({
         success: true,
         message: 'No unposted jobs available, skipping this cycle',
         posted: 0,
-        ...(dryRun && { dryRun: true, preview: [] }),
+        held,
+        skipped: skippedJobs.length,
+        ...(dryRun && { dryRun: true, preview: [], alsoConsidered: [] }),
       });
     }
 
@@ -104,64 +195,63 @@ async function handleAutoPost(requestUrl: string) {
     const trendingHashtags = await getTrendingHashtags();
 
     if (dryRun) {
-      const preview = postableJobs.map((job) => {
-        const conciseJob: ConciseJobData = {
-          id: job.id,
-          title: job.title,
-          company: job.company,
-          location: job.location,
-          jobType: job.jobType,
-          description: job.description,
-          applyUrl: job.applyUrl,
-          sourceUrl: job.sourceUrl,
-        };
+      const preview = await Promise.all(picks.map(async (pick) => {
+        const conciseJob = toConciseJob(pick.job, await getJobCompanyProfile(pick.job));
         return {
-          jobId: job.id,
-          title: `${job.title} at ${job.company}`,
+          ...explainRanking(pick),
           twitterMessage: formatConciseTwitterJob(conciseJob, trendingHashtags),
           telegramMessage: formatConciseTelegramJob(conciseJob),
         };
-      });
+      }));
       return NextResponse.json({
         success: true,
         dryRun: true,
         preview,
+        alsoConsidered: ranked.slice(postCount, postCount + RUNNERS_UP).map(explainRanking),
+        slot: slot?.remaining ? slot : nextSlot,
+        held,
       });
     }
 
+    // Reserve the slot's posts before posting, so an overlapping run can't post past its job count.
+    // A forced run posts its picks either way; only the reserved ones count against the slot
+    const reserved = slot?.remaining ? await reserveSlotPosts(slot, picks.length) : 0;
+    const toPost = slot?.remaining && !force ? picks.slice(0, reserved) : picks;
+    if (toPost.length === 0) {
+      console.log(`Slot ${slot!.time} filled by another run, skipping this cycle`);
+      return NextResponse.json({ success: true, message: `Slot ${slot!.time} already filled`, posted: 0, held });
+    }
+
     const results: {
       jobId: string;
       title: string;
       twitter: { success: boolean; tweetUrl?: string; error?: string };
       telegram: { success: boolean; messageId?: number; error?: string };
+      categoryChannel?: { category: string; success: boolean; messageId?: number; error?: string };
     }[] = [];
 
     const postedJobIds: string[] = [];
 
-    for (const job of postableJobs) {
-      // Convert ScrapedJob to ConciseJobData
-      const conciseJob: ConciseJobData = {
-        id: job.id,
-        title: job.title,
-        company: job.company,
-        location: job.location,
-        jobType: job.jobType,
-        description: job.description,
-        applyUrl: job.applyUrl,
-        sourceUrl: job.sourceUrl,
-      };
+    for (const [index, { job, score }] of toPost.entries()) {
+      // Company profile (logo and "About the company"), when enrichment found one
+      const company = await getJobCompanyProfile(job);
+
+      const conciseJob = toConciseJob(job, company);
 
       // Format messages (with trending hashtags for Twitter)
       const twitterMessage = formatConciseTwitterJob(conciseJob, trendingHashtags);
       const telegramMessage = formatConciseTelegramJob(conciseJob);
 
-      console.log(`Posting job: ${job.title} at ${job.company}`);
+      console.log(`Posting job: ${job.title} at ${job.company} (ranking score ${score})`);
 
       // Post to Twitter
       const twitterResult = await postToTwitter(twitterMessage);
 
       // Post to Telegram
-      const telegramResult = await postToTelegram(telegramMessage);
+      const telegramResult = await postToTelegram(telegramMessage, undefined, company?.logoUrl);
+
+      // Also post to the category's own channel, when one is configured
+      const categoryResult = await postToCategoryChannel(conciseJob.category!, telegramMessage, company?.logoUrl);
 
       // Track result
       const jobResult = {
@@ -179,6 +269,14 @@ async function handleAutoPost(requestUrl: string) {
           messageId: telegramResult.messageId,
           error: telegramResult.error,
         },
+        ...(categoryResult && {
+          categoryChannel: {
+            category: conciseJob.category!,
+            success: categoryResult.success,
+            messageId: categoryResult.messageId,
+            error: categoryResult.error,
+          },
+        }),
       };
 
       results.push(jobResult);
@@ -189,15 +287,16 @@ async function handleAutoPost(requestUrl: string) {
       }
 
       // Small delay between posts to avoid rate limits
-      if (postableJobs.indexOf(job) < postableJobs.length - 1) {
+      if (index < toPost.length - 1) {
         await new Promise(resolve => setTimeout(resolve, 2000));
       }
     }
 
-    // Mark successfully posted jobs
+    // Mark successfully posted jobs; failed ones give their reservation back, to be retried while the slot is open
     if (postedJobIds.length > 0) {
       await markAsPosted(postedJobIds);
     }
+    if (slot?.remaining) await releaseSlotPosts(slot, reserved - Math.min(reserved, postedJobIds.length));
 
     console.log(`Auto-post complete: ${postedJobIds.length} jobs posted`);
 
@@ -205,6 +304,8 @@ async function handleAutoPost(requestUrl: string) {
       success: true,
       message: `Posted ${postedJobIds.length} job(s) to Twitter and Telegram`,
       posted: postedJobIds.length,
+      held,
+      skipped: skippedJobs.length,
       results,
     });
   } catch (error) {
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CategoryExample, trainCategoryWeights } from '@/lib/categories';
+import { getCategoryLabels } from '@/lib/categoryLabels';
+
+/**
+ * GET /api/categories/train
+ * Learns category keyword weights from the categories people chose or confirmed when posting
+ * (see categoryLabels.ts). Auto-posted jobs are left out, as their category is the classifier's own.
+ * Nothing is changed at runtime: review the returned weights and commit them as
+ * src/lib/categoryWeights.json to deploy them.
+ * Query params: days (labels to learn from, default 30, max 365)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const days = Math.min(365, Math.max(1, parseInt(new URL(request.url).searchParams.get('days') ?? '30', 10) || 30));
+    const examples: CategoryExample[] = (await getCategoryLabels(days)).map(({ title, description, category }) => ({
+      title,
+      description,
+      category,
+    }));
+    const weights = trainCategoryWeights(examples);
+
+    const categoryCounts: Record<string, number> = {};
+    for (const example of examples) {
+      categoryCounts[example.category] = (categoryCounts[example.category] ?? 0) + 1;
+    }
+
+    return NextResponse.json({
+      success: true,
+      examples: examples.length,
+      categoryCounts,
+      weights,
+    });
+  } catch (error) {
+    console.error('Category training error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
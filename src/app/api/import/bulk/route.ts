@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  ColumnMapping,
+  IMPORT_FIELDS,
+  ImportFileError,
+  ImportFormat,
+  importJobs,
+  mapImportRow,
+  parseImportFile,
+  suggestColumnMapping,
+} from '@/lib/bulkImport';
+
+/** Rows shown in the mapping preview */
+const PREVIEW_ROWS = 10;
+
+/**
+ * POST /api/import/bulk
+ * Import jobs from an uploaded CSV or JSON file.
+ * Body: { content: string, format?: 'csv' | 'json', mapping?: { [field]: column }, commit?: boolean }
+ * Without commit, returns the columns, the suggested (or given) mapping and a preview of the
+ * first rows with their validation errors. With commit, imports every row into the queue
+ * and returns a report listing each rejected row with its reasons.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const content = typeof body.content === 'string' ? body.content : '';
+    if (!content.trim()) {
+      return NextResponse.json({ success: false, error: 'File content is required' }, { status: 400 });
+    }
+
+    const format: ImportFormat = body.format === 'json' || body.format === 'csv'
+      ? body.format
+      : /^\s*[[{]/.test(content) ? 'json' : 'csv';
+    const table = parseImportFile(content, format);
+
+    const mapping: ColumnMapping = {};
+    const requested = body.mapping && typeof body.mapping === 'object' ? body.mapping : suggestColumnMapping(table.columns);
+    for (const field of IMPORT_FIELDS) {
+      const column = requested[field.id];
+      if (typeof column === 'string' && table.columns.includes(column)) mapping[field.id] = column;
+    }
+
+    const missing = IMPORT_FIELDS.filter((f) => f.required && !mapping[f.id]).map((f) => f.label);
+
+    if (body.commit !== true) {
+      const mapped = table.rows.map((record, index) => mapImportRow(record, mapping, index + 1));
+      return NextResponse.json({
+        success: true,
+        format,
+        columns: table.columns,
+        fields: IMPORT_FIELDS.map(({ id, label, required }) => ({ id, label, required })),
+        mapping,
+        missing,
+        rowCount: table.rows.length,
+        validCount: mapped.filter((r) => r.job).length,
+        preview: mapped.slice(0, PREVIEW_ROWS).map((r) => ({
+          row: r.row,
+          title: r.title,
+          company: r.company,
+          location: r.job?.location ?? '',
+          jobType: r.job?.jobType ?? '',
+          applyUrl: r.job?.applyUrl ?? '',
+          errors: r.errors,
+        })),
+      });
+    }
+
+    if (missing.length > 0) {
+      return NextResponse.json(
+        { success: false, error: `Map a column to: ${missing.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const report = await importJobs(table, mapping);
+    return NextResponse.json({
+      success: true,
+      message: `Imported ${report.queued} of ${report.total} jobs (${report.held.length} held for review, ${report.rejected.length} rejected)`,
+      report,
+    });
+  } catch (error) {
+    if (error instanceof ImportFileError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+    }
+    console.error('Bulk import error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { importJobFromUrl, JobNotFoundError } from '@/lib/importJob';
+import { RobotsDisallowedError } from '@/lib/robots';
+import { UnsafeUrlError } from '@/lib/publicUrl';
+
+const EXISTING_MESSAGES = {
+  posted: 'This job has already been posted',
+  queued: 'This job is already in the queue',
+  skipped: 'This job was skipped from the queue',
+  expired: 'This job expired from the queue without being posted',
+  held: 'This job is held for scam review',
+  rejected: 'This job was rejected in review',
+};
+
+const ENQUEUE_MESSAGES = {
+  queued: 'Job added to the queue',
+  held: 'Job held for scam review - approve it on the dashboard to queue it',
+  duplicate: 'Job matches one already queued or posted - not added',
+  excluded: 'This job type is excluded from posting - not added',
+};
+
+/**
+ * Verify the request comes from the dashboard (a same-origin browser request, as JobForm sends),
+ * carries CRON_SECRET, or is made in development
+ */
+function verifyRequest(request: Request): boolean {
+  if (request.headers.get('sec-fetch-site') === 'same-origin') {
+    return true;
+  }
+
+  const authHeader = request.headers.get('authorization');
+  const cronSecret = process.env.CRON_SECRET;
+  if (cronSecret && authHeader === `Bearer ${cronSecret}`) {
+    return true;
+  }
+
+  // Allow in development without auth
+  if (process.env.NODE_ENV === 'development') {
+    return true;
+  }
+
+  return false;
+}
+
+/**
+ * POST /api/import
+ * Scrape a single job by URL with the matching source adapter (or generic JSON-LD/meta extraction).
+ * Only http(s) URLs on public hosts are fetched.
+ * Body: { url: string, enqueue?: boolean } - without enqueue the job is only returned (to pre-fill JobForm).
+ */
+export async function POST(request: NextRequest) {
+  if (!verifyRequest(request)) {
+    return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const { url, enqueue } = await request.json();
+    if (typeof url !== 'string' || !/^https?:\/\//i.test(url.trim())) {
+      return NextResponse.json({ success: false, error: 'A job URL (http or https) is required' }, { status: 400 });
+    }
+
+    const result = await importJobFromUrl(url.trim(), enqueue === true);
+    const message = result.existing
+      ? EXISTING_MESSAGES[result.existing]
+      : result.enqueued
+        ? ENQUEUE_MESSAGES[result.enqueued]
+        : 'Job imported';
+
+    return NextResponse.json({
+      success: true,
+      message,
+      existing: result.existing,
+      enqueued: result.enqueued,
+      job: result.job,
+    });
+  } catch (error) {
+    if (error instanceof UnsafeUrlError) {
+      return NextResponse.json({ success: false, error: 'That URL is not on a public website' }, { status: 400 });
+    }
+    if (error instanceof RobotsDisallowedError) {
+      return NextResponse.json({ success: false, error: 'This site does not allow fetching that page' }, { status: 403 });
+    }
+    if (error instanceof JobNotFoundError) {
+      return NextResponse.json({ success: false, error: 'Could not find a job title and company on that page' }, { status: 422 });
+    }
+    console.error('Import error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
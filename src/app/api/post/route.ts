@@ -4,8 +4,9 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { postToTwitter, getTweetUrl } from '@/lib/twitter';
-import { postToTelegram } from '@/lib/telegram';
+import { postToCategoryChannel, postToTelegram } from '@/lib/telegram';
 import { isJobExcluded } from '@/lib/excludedJobs';
+import { saveCategoryLabel } from '@/lib/categoryLabels';
 import {
   JobData,
   formatTwitterMessage,
@@ -32,6 +33,12 @@ export interface PostResponse {
       messageId?: number;
       error?: string;
     };
+    categoryChannel?: {
+      category: string;
+      success: boolean;
+      messageId?: number;
+      error?: string;
+    };
   };
   errors?: string[];
 }
@@ -96,6 +103,23 @@ export async function POST(request: NextRequest): Promise<NextResponse<PostRespo
       };
 
       if (telegramResult.success) hasSuccess = true;
+
+      // Also post to the job category's own channel, when one is configured
+      if (job.category) {
+        const categoryResult = await postToCategoryChannel(job.category, telegramMessage);
+        if (categoryResult) {
+          results.categoryChannel = { category: job.category, ...categoryResult };
+        }
+      }
+    }
+
+    // The category was chosen or confirmed in JobForm, so keep it as a training example
+    if (hasSuccess && job.category) {
+      try {
+        await saveCategoryLabel({ ...job, category: job.category });
+      } catch (error) {
+        console.error('Error saving category label:', error);
+      }
     }
 
     return NextResponse.json({
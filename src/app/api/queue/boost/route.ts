@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { MAX_BOOST, setJobBoost } from '@/lib/jobQueue';
+
+/**
+ * POST /api/queue/boost
+ * Raise (or lower) a queued job's ranking for auto-posting.
+ * Body: { id: string, boost: number } - points added to the job's score, 0 to remove the boost
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { id, boost } = await request.json();
+    if (typeof id !== 'string' || typeof boost !== 'number' || !Number.isFinite(boost)) {
+      return NextResponse.json(
+        { success: false, error: 'Expected { id, boost: number }' },
+        { status: 400 }
+      );
+    }
+    if (Math.abs(boost) > MAX_BOOST) {
+      return NextResponse.json(
+        { success: false, error: `Boost must be between -${MAX_BOOST} and ${MAX_BOOST}` },
+        { status: 400 }
+      );
+    }
+
+    if (!(await setJobBoost(id, boost))) {
+      return NextResponse.json({ success: false, error: 'Job is not in the queue' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: boost === 0 ? 'Boost removed' : `Job boosted by ${boost > 0 ? '+' : ''}${Math.round(boost)}`,
+    });
+  } catch (error) {
+    console.error('Boost error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
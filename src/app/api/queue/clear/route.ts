@@ -3,7 +3,7 @@ import { clearPendingQueue } from '@/lib/jobQueue';
 
 /**
  * POST /api/queue/clear
- * Clears today's pending job queue.
+ * Clears the queue: every queued job is marked skipped.
  */
 export async function POST() {
   try {
@@ -11,7 +11,7 @@ export async function POST() {
 
     return NextResponse.json({
       success: true,
-      message: `Cleared ${clearedCount} pending job(s)`,
+      message: `Skipped ${clearedCount} queued job(s)`,
       clearedCount,
     });
   } catch (error) {
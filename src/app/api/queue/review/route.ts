@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { approveHeldJob, rejectHeldJob } from '@/lib/jobQueue';
+
+/**
+ * POST /api/queue/review
+ * Approve (queue for posting) or reject a job held for scam review.
+ * Body: { id: string, action: 'approve' | 'reject' }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { id, action } = await request.json();
+    if (typeof id !== 'string' || (action !== 'approve' && action !== 'reject')) {
+      return NextResponse.json(
+        { success: false, error: 'Expected { id, action: "approve" | "reject" }' },
+        { status: 400 }
+      );
+    }
+
+    const done = action === 'approve' ? await approveHeldJob(id) : await rejectHeldJob(id);
+    if (!done) {
+      return NextResponse.json(
+        { success: false, error: 'Job is not held for review (or its data has expired)' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: action === 'approve' ? 'Job approved and added to the queue' : 'Job rejected',
+    });
+  } catch (error) {
+    console.error('Review error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
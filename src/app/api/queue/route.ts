@@ -1,55 +1,120 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getQueueStats, getJob } from '@/lib/jobQueue';
+import { getQueueStats, getJobs, getUnpostedJobs, QUEUE_STATES, QueueState } from '@/lib/jobQueue';
+import { CompanyProfile, getJobCompanyProfiles } from '@/lib/companies';
+import { formatLocation } from '@/lib/locations';
+import { categoryOf, getCategory, JobCategoryId } from '@/lib/categories';
+import { formatQualifications, qualificationsOf, Seniority } from '@/lib/qualifications';
+import type { ScrapedJob } from '@/lib/scraper';
+import { getTimezone } from '@/lib/timezone';
+
+/**
+ * Group all queued jobs by company, with each company's profile when one has been fetched
+ */
+async function groupQueuedByCompany() {
+  const jobs = await getUnpostedJobs();
+  const profiles = await getJobCompanyProfiles(jobs);
+  const groups = new Map<string, { jobs: ScrapedJob[]; profile: CompanyProfile | null }>();
+  jobs.forEach((job, i) => {
+    const key = job.companyUrl || job.company.trim().toLowerCase();
+    const group = groups.get(key) ?? { jobs: [], profile: null };
+    group.jobs.push(job);
+    group.profile ??= profiles[i];
+    groups.set(key, group);
+  });
+
+  const companies = Array.from(groups.values()).map(({ jobs: companyJobs, profile }) => ({
+    name: profile?.name || companyJobs[0].company,
+    logoUrl: profile?.logoUrl,
+    industry: profile?.industry,
+    size: profile?.size,
+    website: profile?.website,
+    jobs: companyJobs.map((job) => ({
+      id: job.id,
+      title: job.title,
+      location: job.locations ? job.locations.map(formatLocation).join(' / ') : job.location,
+      jobType: job.jobType,
+    })),
+  }));
+  return companies.sort((a, b) => b.jobs.length - a.jobs.length || a.name.localeCompare(b.name));
+}
 
 /**
  * GET /api/queue
- * Returns queue statistics and paginated jobs for the dashboard.
- * Query params: pendingPage, pendingLimit, historyPage, historyLimit
+ * Returns job counts by state and a page of jobs in one state for the dashboard.
+ * Query params: state (queued, posted, skipped or expired; default queued), jobsPage, jobsLimit,
+ * historyPage, historyLimit, category, seniority, education, maxExperience (filter listed jobs),
+ * groupBy=company (adds all queued jobs grouped by company)
  */
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
+    const state = searchParams.get('state') as QueueState | null;
     const opts = {
-      pendingPage: parseInt(searchParams.get('pendingPage') ?? '1', 10),
-      pendingLimit: parseInt(searchParams.get('pendingLimit') ?? '10', 10),
+      state: state && QUEUE_STATES.includes(state) ? state : undefined,
+      jobsPage: parseInt(searchParams.get('jobsPage') ?? '1', 10),
+      jobsLimit: parseInt(searchParams.get('jobsLimit') ?? '10', 10),
       historyPage: parseInt(searchParams.get('historyPage') ?? '1', 10),
       historyLimit: parseInt(searchParams.get('historyLimit') ?? '10', 10),
+      category: (searchParams.get('category') || undefined) as JobCategoryId | undefined,
+      seniority: (searchParams.get('seniority') || undefined) as Seniority | undefined,
+      education: searchParams.get('education') || undefined,
+      maxExperienceYears: searchParams.get('maxExperience')
+        ? parseInt(searchParams.get('maxExperience')!, 10)
+        : undefined,
     };
 
     const stats = await getQueueStats(opts);
+    const companies = searchParams.get('groupBy') === 'company' ? await groupQueuedByCompany() : undefined;
 
     // Enhance recent history with job details
-    const historyWithDetails = await Promise.all(
-      stats.recentHistory.map(async (entry) => {
-        const job = await getJob(entry.id);
-        return {
-          id: entry.id,
-          postedAt: entry.postedAt,
-          title: job?.title || 'Unknown',
-          company: job?.company || 'Unknown',
-        };
-      })
-    );
+    const historyJobs = await getJobs(stats.recentHistory.map((entry) => entry.id));
+    const historyWithDetails = stats.recentHistory.map((entry, i) => ({
+      id: entry.id,
+      postedAt: entry.postedAt,
+      title: historyJobs[i]?.title || 'Unknown',
+      company: historyJobs[i]?.company || 'Unknown',
+    }));
 
     return NextResponse.json({
       success: true,
+      timezone: getTimezone(),
       stats: {
-        pendingToday: stats.pendingToday,
+        ...stats.states,
         postedToday: stats.postedToday,
         totalPosted: stats.totalPosted,
       },
-      pendingJobs: stats.pendingJobs.map(job => ({
+      jobs: stats.jobs.map(job => ({
         id: job.id,
+        source: job.source,
         title: job.title,
         company: job.company,
-        location: job.location,
+        location: job.locations ? job.locations.map(formatLocation).join(' / ') : job.location,
         jobType: job.jobType,
+        category: getCategory(categoryOf(job)).label,
+        qualifications: formatQualifications(qualificationsOf(job)),
         applyUrl: job.applyUrl,
         scrapedAt: job.scrapedAt,
+        stateAt: job.stateAt,
+        reason: job.reason,
+        expiresAt: job.expiresAt,
+        boost: job.boost,
       })),
-      pendingTotal: stats.pendingTotal,
+      jobsTotal: stats.jobsTotal,
       recentHistory: historyWithDetails,
       historyTotal: stats.historyTotal,
+      duplicates: stats.duplicatesToday,
+      held: stats.heldForReview.map((job) => ({
+        id: job.id,
+        title: job.title,
+        company: job.company,
+        source: job.source,
+        sourceUrl: job.sourceUrl,
+        applyUrl: job.applyUrl,
+        heldAt: job.heldAt,
+        score: job.scamRisk?.score ?? 0,
+        reasons: job.scamRisk?.signals.map((signal) => signal.evidence ? `${signal.reason} ("${signal.evidence}")` : signal.reason) ?? [],
+      })),
+      ...(companies && { companies }),
     });
   } catch (error) {
     console.error('Queue stats error:', error);
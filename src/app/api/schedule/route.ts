@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getPostingSchedule,
+  planUpcomingPosts,
+  resetPostingSchedule,
+  savePostingSchedule,
+  ScheduleError,
+  SCHEDULE_LIMITS,
+  SLOT_WINDOW_MINUTES,
+} from '@/lib/schedule';
+import { getTimezone } from '@/lib/timezone';
+
+/** Upcoming slots shown with their planned posts */
+const UPCOMING_SLOTS = 6;
+
+function errorResponse(error: unknown, label: string) {
+  if (error instanceof ScheduleError) {
+    return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+  }
+  console.error(`${label} error:`, error);
+  return NextResponse.json(
+    {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    },
+    { status: 500 }
+  );
+}
+
+/**
+ * GET /api/schedule
+ * The posting schedule (the default one when none is saved) and the next slots with
+ * the queued jobs planned for each.
+ */
+export async function GET() {
+  try {
+    const { schedule, saved } = await getPostingSchedule();
+    const upcoming = await planUpcomingPosts(UPCOMING_SLOTS);
+    return NextResponse.json({
+      success: true,
+      schedule,
+      saved,
+      timezone: getTimezone(),
+      slotWindowMinutes: SLOT_WINDOW_MINUTES,
+      limits: SCHEDULE_LIMITS,
+      upcoming: upcoming.map(({ planned, ...slot }) => ({
+        ...slot,
+        planned: planned.map((job) => ({ id: job.id, title: job.title, company: job.company })),
+      })),
+    });
+  } catch (error) {
+    return errorResponse(error, 'Schedule');
+  }
+}
+
+/**
+ * POST /api/schedule
+ * Save the schedule.
+ * Body: { weekday: [{ time: 'HH:MM', jobs }], weekend: [...], quietHours: { start, end } | null }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const schedule = await savePostingSchedule(await request.json());
+    return NextResponse.json({ success: true, message: 'Posting schedule saved', schedule });
+  } catch (error) {
+    return errorResponse(error, 'Save schedule');
+  }
+}
+
+/**
+ * DELETE /api/schedule
+ * Go back to the default schedule.
+ */
+export async function DELETE() {
+  try {
+    await resetPostingSchedule();
+    return NextResponse.json({ success: true, message: 'Posting schedule reset to the default' });
+  } catch (error) {
+    return errorResponse(error, 'Reset schedule');
+  }
+}
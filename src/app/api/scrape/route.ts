@@ -1,8 +1,13 @@
 import { NextResponse } from 'next/server';
 import { Receiver } from '@upstash/qstash';
-import { scrapeLatestJobs } from '@/lib/scraper';
-import { addJobsForToday, getQueueStats } from '@/lib/jobQueue';
+import { scrapeTargets, ScrapedJob, SourceScrapeStats } from '@/lib/scraper';
+import { getEnabledScrapeTargets } from '@/lib/scrapeTargets';
+import { addJobsToQueue, getJobQueueStatuses, getQueueStats, getUnpostedJobs, holdJobsForReview } from '@/lib/jobQueue';
 import { isJobExcluded } from '@/lib/excludedJobs';
+import { assessScrapeHealth, sendScrapeHealthAlert } from '@/lib/scrapeHealth';
+import { ingestFeeds } from '@/lib/feeds';
+import { enrichCompanyProfiles } from '@/lib/companies';
+import { assessScamRisk, needsReview } from '@/lib/scamRisk';
 
 /**
  * Get QStash Receiver - lazy initialization to ensure env vars are available
@@ -58,7 +63,7 @@ async function verifyRequest(request: Request): Promise<boolean> {
 /**
  * POST /api/scrape (QStash uses POST)
  * GET /api/scrape (for manual/dashboard triggers)
- * Scrapes jobs from MyJobMag and adds new ones to today's queue.
+ * Scrapes jobs from every enabled scrape target and job feed and adds new ones to the queue.
  */
 export async function POST(request: Request) {
   const isValid = await verifyRequest(request);
@@ -82,11 +87,23 @@ async function handleScrape() {
   try {
     console.log('Starting job scrape...');
 
-    // Scrape latest jobs (limit to 30 per run)
-    const scrapedJobs = await scrapeLatestJobs(30);
+    // Scrape the enabled targets (each with its own page depth and per-run cap) and read job feeds
+    const targets = await getEnabledScrapeTargets();
+    const [scrapeResult, feedResult] = await Promise.all([scrapeTargets(targets), ingestFeeds(undefined, 30)]);
+    const { sources, timedOut } = scrapeResult;
+    const { feeds } = feedResult;
 
-    // Filter out excluded job titles before adding to queue
-    const jobs = scrapedJobs.filter((j) => !isJobExcluded(j.title));
+    // Alert the admin chat when a source's parsing breaks (or recovers)
+    const health = assessScrapeHealth(sources, scrapeResult.jobs);
+    await sendScrapeHealthAlert(health);
+
+    // Feed entries go into the queue alongside scraped jobs
+    const scrapedJobs = [...scrapeResult.jobs, ...feedResult.jobs];
+
+    // Filter out excluded job titles before adding to queue, and score the rest for scam risk
+    const jobs = scrapedJobs
+      .filter((j) => !isJobExcluded(j.title))
+      .map((j) => ({ ...j, scamRisk: assessScamRisk(j) }));
 
     if (jobs.length === 0) {
       return NextResponse.json({
@@ -96,25 +113,51 @@ async function handleScrape() {
           : `All ${scrapedJobs.length} scraped jobs were excluded`,
         scraped: scrapedJobs.length,
         added: 0,
+        held: 0,
+        timedOut,
+        health,
+        sources: buildSourceReport(sources, scrapedJobs, jobs, []),
+        feeds,
       });
     }
 
-    // Add to today's queue (skips already posted jobs)
-    const addedCount = await addJobsForToday(jobs);
+    // Likely scams are held for manual review; the rest go into the queue (skips jobs already known).
+    // Only new jobs are held: scraped jobs don't carry a reviewer's approval, and skipped or
+    // expired jobs shouldn't come back into review
+    const risky = jobs.filter((j) => needsReview(j, j.scamRisk));
+    const riskyStatuses = await getJobQueueStatuses(risky.map((j) => j.id));
+    const heldIds = await holdJobsForReview(risky.filter((_, i) => riskyStatuses[i] === null));
+    const addedIds = await addJobsToQueue(jobs.filter((j) => !needsReview(j, j.scamRisk)));
+    const addedCount = addedIds.length;
+
+    // Fetch company profiles (logos and "About the company" for posts) within what is left of the
+    // scrape's time budget: newly queued jobs first, then any queued job whose company has none yet
+    const queuedJobs = await getUnpostedJobs();
+    await enrichCompanyProfiles([...jobs.filter((j) => addedIds.includes(j.id)), ...queuedJobs], scrapeResult.deadline);
 
     // Get updated stats
     const stats = await getQueueStats();
 
-    console.log(`Scrape complete: ${scrapedJobs.length} scraped, ${jobs.length} after exclusions, ${addedCount} added to queue`);
+    console.log(`Scrape complete: ${scrapedJobs.length} scraped, ${jobs.length} after exclusions, ${addedCount} added to queue, ${heldIds.length} held for review`);
 
     const excludedCount = scrapedJobs.length - jobs.length;
+    const sourceReport = buildSourceReport(sources, scrapedJobs, jobs, addedIds);
+    const sourceSummary = sourceReport.map((s) => `${s.label}: ${s.added}/${s.scraped}`).join(', ');
+    const blockedCount = sourceReport.reduce((sum, s) => sum + s.blocked.length, 0);
+    const feedCount = feedResult.jobs.length;
     return NextResponse.json({
       success: true,
-      message: `Scraped ${scrapedJobs.length} jobs${excludedCount > 0 ? ` (${excludedCount} excluded)` : ''}, added ${addedCount} new jobs to queue`,
+      message: `Scraped ${scrapedJobs.length} jobs${excludedCount > 0 ? ` (${excludedCount} excluded)` : ''}, added ${addedCount} new jobs to queue (${sourceSummary}${feedCount > 0 ? `, ${feedCount} from feeds` : ''})${heldIds.length > 0 ? `. ${heldIds.length} held for scam review` : ''}${blockedCount > 0 ? `. ${blockedCount} URL(s) blocked by robots.txt` : ''}${timedOut ? '. Time budget reached - partial results' : ''}`,
       scraped: scrapedJobs.length,
+      timedOut,
+      blocked: blockedCount,
       excluded: excludedCount,
       added: addedCount,
-      pendingToday: stats.pendingToday,
+      held: heldIds.length,
+      sources: sourceReport,
+      feeds,
+      health,
+      queued: stats.states.queued,
       totalPosted: stats.totalPosted,
     });
   } catch (error) {
@@ -128,3 +171,22 @@ async function handleScrape() {
     );
   }
 }
+
+/**
+ * Combine scraper stats with exclusion and queue counts for each source
+ */
+function buildSourceReport(
+  sources: SourceScrapeStats[],
+  scrapedJobs: ScrapedJob[],
+  keptJobs: ScrapedJob[],
+  addedIds: string[]
+) {
+  return sources.map((s) => {
+    const kept = keptJobs.filter((j) => j.source === s.source);
+    return {
+      ...s,
+      excluded: scrapedJobs.filter((j) => j.source === s.source).length - kept.length,
+      added: kept.filter((j) => addedIds.includes(j.id)).length,
+    };
+  });
+}
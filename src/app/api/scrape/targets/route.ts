@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  deleteScrapeTarget,
+  getScrapeTargets,
+  saveScrapeTarget,
+  ScrapeTargetError,
+  TARGET_LIMITS,
+} from '@/lib/scrapeTargets';
+import { getAllJobSources } from '@/lib/sources';
+
+function errorResponse(error: unknown, label: string) {
+  if (error instanceof ScrapeTargetError) {
+    return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+  }
+  console.error(`${label} error:`, error);
+  return NextResponse.json(
+    {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    },
+    { status: 500 }
+  );
+}
+
+/**
+ * GET /api/scrape/targets
+ * List the scrape targets (built-in ones when none are saved) and the sources targets can use.
+ */
+export async function GET() {
+  try {
+    const { targets, saved } = await getScrapeTargets();
+    return NextResponse.json({
+      success: true,
+      targets,
+      saved,
+      limits: TARGET_LIMITS,
+      sources: getAllJobSources().map((s) => ({ name: s.name, label: s.label, defaultListingsUrl: s.defaultListingsUrl })),
+    });
+  } catch (error) {
+    return errorResponse(error, 'Scrape targets');
+  }
+}
+
+/**
+ * POST /api/scrape/targets
+ * Add a target, or update one when the body has an existing id.
+ * Body: { id?, label?, source, listingsUrl?, maxPages?, maxJobs?, enabled? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const target = await saveScrapeTarget(body);
+    return NextResponse.json({ success: true, message: `Saved scrape target "${target.label}"`, target });
+  } catch (error) {
+    return errorResponse(error, 'Save scrape target');
+  }
+}
+
+/**
+ * DELETE /api/scrape/targets?id=...
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const id = request.nextUrl.searchParams.get('id');
+    if (!id) {
+      return NextResponse.json({ success: false, error: 'Target id is required' }, { status: 400 });
+    }
+    if (!(await deleteScrapeTarget(id))) {
+      return NextResponse.json({ success: false, error: 'No such scrape target' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true, message: 'Scrape target deleted' });
+  } catch (error) {
+    return errorResponse(error, 'Delete scrape target');
+  }
+}
@@ -2,21 +2,47 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import Link from 'next/link';
+import BulkImport from '@/components/BulkImport';
+import PostingSchedule from '@/components/PostingSchedule';
+import ScrapeTargets from '@/components/ScrapeTargets';
+import { CATEGORIES } from '@/lib/categories';
+import { EDUCATION_LEVELS, SENIORITY_LABELS } from '@/lib/qualifications';
 
-interface QueueStats {
-  pendingToday: number;
+type QueueState = 'queued' | 'posted' | 'skipped' | 'expired';
+
+/** Job counts by queue state; posted, skipped and expired cover the last 30 days */
+interface QueueStats extends Record<QueueState, number> {
   postedToday: number;
   totalPosted: number;
 }
 
-interface PendingJob {
+const STATE_LABELS: Record<QueueState, string> = {
+  queued: 'Queued',
+  posted: 'Posted',
+  skipped: 'Skipped',
+  expired: 'Expired',
+};
+
+interface ListedJob {
   id: string;
+  source?: string;
   title: string;
   company: string;
   location: string;
   jobType: string;
+  category?: string;
+  /** Compact requirements line, e.g. "Entry level · B.Sc · 2+ yrs" */
+  qualifications?: string;
   applyUrl: string;
   scrapedAt: string;
+  /** When the job entered its current state */
+  stateAt: string;
+  /** Why a skipped or expired job left the queue */
+  reason?: string;
+  /** When a queued job reaches its age limit */
+  expiresAt?: string;
+  /** Manual ranking boost on a queued job */
+  boost?: number;
 }
 
 interface HistoryEntry {
@@ -26,46 +52,124 @@ interface HistoryEntry {
   company: string;
 }
 
-interface PreviewItem {
+interface DuplicateEntry {
+  id: string;
+  title: string;
+  company: string;
+  source: string;
+  sourceUrl?: string;
+  matchedId: string;
+  matchedTitle: string;
+  matchedCompany: string;
+  matchedSource: string;
+  similarity: number;
+  detectedAt: string;
+}
+
+interface HeldJob {
+  id: string;
+  title: string;
+  company: string;
+  source: string;
+  sourceUrl?: string;
+  applyUrl: string;
+  heldAt: string;
+  score: number;
+  reasons: string[];
+}
+
+interface CompanyGroup {
+  name: string;
+  logoUrl?: string;
+  industry?: string;
+  size?: string;
+  website?: string;
+  jobs: { id: string; title: string; location: string; jobType: string }[];
+}
+
+/** What one ranking factor added to a job's score */
+interface RankingReason {
+  factor: string;
+  points: number;
+  detail: string;
+}
+
+interface RankedItem {
   jobId: string;
   title: string;
+  score: number;
+  reasons: RankingReason[];
+}
+
+interface PreviewItem extends RankedItem {
   twitterMessage: string;
   telegramMessage: string;
 }
 
+/** Ranking boosts offered on queued jobs */
+const BOOST_OPTIONS = [0, 10, 25, 50, -25];
+
+function formatPoints(points: number): string {
+  return points > 0 ? `+${points}` : String(points);
+}
+
 interface QueueData {
   success: boolean;
+  /** Timezone the stats' days follow; times are shown in it too */
+  timezone: string;
   stats: QueueStats;
-  pendingJobs: PendingJob[];
-  pendingTotal: number;
+  jobs: ListedJob[];
+  jobsTotal: number;
   recentHistory: HistoryEntry[];
   historyTotal: number;
+  duplicates?: DuplicateEntry[];
+  held?: HeldJob[];
+  companies?: CompanyGroup[];
   error?: string;
 }
 
 const PAGE_SIZE = 10;
 
+/** Job list filters, sent as /api/queue query params */
+interface JobFilters {
+  category: string;
+  seniority: string;
+  education: string;
+  maxExperience: string;
+}
+
+const NO_FILTERS: JobFilters = { category: '', seniority: '', education: '', maxExperience: '' };
+
 export default function DashboardPage() {
   const [data, setData] = useState<QueueData | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [actionLoading, setActionLoading] = useState<string | null>(null);
   const [actionResult, setActionResult] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
-  const [pendingPage, setPendingPage] = useState(1);
+  const [listState, setListState] = useState<QueueState>('queued');
+  const [jobsPage, setJobsPage] = useState(1);
   const [historyPage, setHistoryPage] = useState(1);
   const [previewOpen, setPreviewOpen] = useState(false);
   const [previewLoading, setPreviewLoading] = useState(false);
   const [previewData, setPreviewData] = useState<PreviewItem[] | null>(null);
+  const [runnersUp, setRunnersUp] = useState<RankedItem[]>([]);
+  const [groupByCompany, setGroupByCompany] = useState(false);
+  const [filters, setFilters] = useState<JobFilters>(NO_FILTERS);
 
-  const fetchData = useCallback(async (overrides?: { pendingPage?: number; historyPage?: number }) => {
+  const fetchData = useCallback(async (overrides?: { jobsPage?: number; historyPage?: number }) => {
     try {
       setLoading(true);
       const params = new URLSearchParams({
-        pendingPage: String(overrides?.pendingPage ?? pendingPage),
-        pendingLimit: String(PAGE_SIZE),
+        state: listState,
+        jobsPage: String(overrides?.jobsPage ?? jobsPage),
+        jobsLimit: String(PAGE_SIZE),
         historyPage: String(overrides?.historyPage ?? historyPage),
         historyLimit: String(PAGE_SIZE),
       });
+      if (groupByCompany) params.set('groupBy', 'company');
+      for (const [key, value] of Object.entries(filters)) {
+        if (value) params.set(key, value);
+      }
       const response = await fetch(`/api/queue?${params}`);
       const result = await response.json();
 
@@ -75,14 +179,20 @@ export default function DashboardPage() {
 
       setData(result);
       setError(null);
-      if (overrides?.pendingPage !== undefined) setPendingPage(overrides.pendingPage);
+      if (overrides?.jobsPage !== undefined) setJobsPage(overrides.jobsPage);
       if (overrides?.historyPage !== undefined) setHistoryPage(overrides.historyPage);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Unknown error');
     } finally {
       setLoading(false);
     }
-  }, [pendingPage, historyPage]);
+  }, [listState, jobsPage, historyPage, groupByCompany, filters]);
+
+  const updateFilter = (key: keyof JobFilters, value: string) => {
+    setFilters((f) => ({ ...f, [key]: value }));
+    setJobsPage(1);
+  };
+  const hasFilters = Object.values(filters).some(Boolean);
 
   useEffect(() => {
     fetchData();
@@ -121,7 +231,7 @@ export default function DashboardPage() {
     setActionLoading('post');
     setActionResult(null);
     try {
-      const response = await fetch('/api/auto-post');
+      const response = await fetch('/api/auto-post?force=true');
       const result = await response.json();
 
       if (result.success) {
@@ -146,6 +256,7 @@ export default function DashboardPage() {
   const handlePreview = async () => {
     setPreviewLoading(true);
     setPreviewData(null);
+    setRunnersUp([]);
     setPreviewOpen(true);
     try {
       const response = await fetch('/api/auto-post?dryRun=true');
@@ -153,6 +264,7 @@ export default function DashboardPage() {
 
       if (result.success && result.dryRun) {
         setPreviewData(result.preview || []);
+        setRunnersUp(result.alsoConsidered || []);
       } else {
         setPreviewData([]);
       }
@@ -163,10 +275,10 @@ export default function DashboardPage() {
     }
   };
 
-  const handleClearPending = async () => {
-    const count = data?.stats.pendingToday || 0;
+  const handleClearQueue = async () => {
+    const count = data?.stats.queued || 0;
     if (count === 0) return;
-    if (!confirm(`Clear all ${count} pending job(s)? This cannot be undone.`)) return;
+    if (!confirm(`Skip all ${count} queued job(s)? They won't be queued again.`)) return;
 
     setActionLoading('clear');
     setActionResult(null);
@@ -179,7 +291,7 @@ export default function DashboardPage() {
           type: 'success',
           message: result.message,
         });
-        fetchData({ pendingPage: 1 });
+        fetchData({ jobsPage: 1 });
       } else {
         throw new Error(result.error || 'Clear failed');
       }
@@ -193,14 +305,109 @@ export default function DashboardPage() {
     }
   };
 
+  const handleBoost = async (id: string, boost: number) => {
+    setActionLoading(`boost:${id}`);
+    setActionResult(null);
+    try {
+      const response = await fetch('/api/queue/boost', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id, boost }),
+      });
+      const result = await response.json();
+
+      if (result.success) {
+        setActionResult({
+          type: 'success',
+          message: result.message,
+        });
+        fetchData();
+      } else {
+        throw new Error(result.error || 'Boost failed');
+      }
+    } catch (err) {
+      setActionResult({
+        type: 'error',
+        message: err instanceof Error ? err.message : 'Unknown error',
+      });
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
+  const handleReview = async (id: string, action: 'approve' | 'reject') => {
+    setActionLoading(`review:${id}`);
+    setActionResult(null);
+    try {
+      const response = await fetch('/api/queue/review', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id, action }),
+      });
+      const result = await response.json();
+
+      if (result.success) {
+        setActionResult({
+          type: 'success',
+          message: result.message,
+        });
+        fetchData();
+      } else {
+        throw new Error(result.error || 'Review failed');
+      }
+    } catch (err) {
+      setActionResult({
+        type: 'error',
+        message: err instanceof Error ? err.message : 'Unknown error',
+      });
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
   const formatTime = (isoString: string) => {
     const date = new Date(isoString);
     return date.toLocaleTimeString('en-US', {
+      timeZone: data?.timezone,
       hour: '2-digit',
       minute: '2-digit',
     });
   };
 
+  // Jobs can wait in the queue for days, so their times include the date
+  const formatDateTime = (isoString: string) => {
+    const date = new Date(isoString);
+    return date.toLocaleString('en-US', {
+      timeZone: data?.timezone,
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  const describeState = (job: ListedJob) =>
+    listState === 'queued' && job.expiresAt
+      ? `Expires ${formatDateTime(job.expiresAt)}`
+      : job.reason;
+
+  const renderBoost = (job: ListedJob) =>
+    listState === 'queued' && (
+      <select
+        value={job.boost ?? 0}
+        onChange={(e) => handleBoost(job.id, Number(e.target.value))}
+        disabled={actionLoading !== null}
+        title="Ranking boost for auto-posting"
+        className="mt-1 px-1 py-0.5 text-xs rounded bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 disabled:opacity-50"
+      >
+        {[...new Set([...BOOST_OPTIONS, job.boost ?? 0])].map((points) => (
+          <option key={points} value={points}>
+            {points === 0 ? 'No boost' : `Boost ${formatPoints(points)}`}
+          </option>
+        ))}
+      </select>
+    );
+
   if (loading && !data) {
     return (
       <div className="min-h-screen bg-gray-50 dark:bg-gray-900 p-4 sm:p-8">
@@ -246,7 +453,7 @@ export default function DashboardPage() {
               Job Queue Dashboard
             </h1>
             <p className="text-gray-600 dark:text-gray-400 mt-1">
-              MyJobMag Scraper & Auto-Poster
+              Job Scraper & Auto-Poster
             </p>
           </div>
           <Link
@@ -279,11 +486,11 @@ export default function DashboardPage() {
         )}
 
         {/* Stats Cards */}
-        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-8">
+        <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-5 gap-4 mb-8">
           <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6">
-            <p className="text-sm text-gray-500 dark:text-gray-400">Pending Today</p>
+            <p className="text-sm text-gray-500 dark:text-gray-400">Queued</p>
             <p className="text-3xl font-bold text-blue-600 dark:text-blue-400">
-              {data?.stats.pendingToday || 0}
+              {data?.stats.queued || 0}
             </p>
           </div>
           <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6">
@@ -292,6 +499,18 @@ export default function DashboardPage() {
               {data?.stats.postedToday || 0}
             </p>
           </div>
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6">
+            <p className="text-sm text-gray-500 dark:text-gray-400">Skipped (30 days)</p>
+            <p className="text-3xl font-bold text-yellow-600 dark:text-yellow-400">
+              {data?.stats.skipped || 0}
+            </p>
+          </div>
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6">
+            <p className="text-sm text-gray-500 dark:text-gray-400">Expired (30 days)</p>
+            <p className="text-3xl font-bold text-red-600 dark:text-red-400">
+              {data?.stats.expired || 0}
+            </p>
+          </div>
           <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6">
             <p className="text-sm text-gray-500 dark:text-gray-400">Total Posted (All Time)</p>
             <p className="text-3xl font-bold text-purple-600 dark:text-purple-400">
@@ -318,7 +537,7 @@ export default function DashboardPage() {
           </button>
           <button
             onClick={handlePost}
-            disabled={actionLoading !== null || (data?.stats.pendingToday || 0) === 0}
+            disabled={actionLoading !== null || (data?.stats.queued || 0) === 0}
             className="px-4 py-2.5 sm:px-6 sm:py-3 text-sm sm:text-base bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
           >
             {actionLoading === 'post' ? (
@@ -332,7 +551,7 @@ export default function DashboardPage() {
           </button>
           <button
             onClick={handlePreview}
-            disabled={actionLoading !== null || previewLoading || (data?.stats.pendingToday || 0) === 0}
+            disabled={actionLoading !== null || previewLoading || (data?.stats.queued || 0) === 0}
             className="px-4 py-2.5 sm:px-6 sm:py-3 text-sm sm:text-base bg-slate-600 text-white rounded-lg hover:bg-slate-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
           >
             {previewLoading ? (
@@ -345,8 +564,8 @@ export default function DashboardPage() {
             )}
           </button>
           <button
-            onClick={handleClearPending}
-            disabled={actionLoading !== null || (data?.stats.pendingToday || 0) === 0}
+            onClick={handleClearQueue}
+            disabled={actionLoading !== null || (data?.stats.queued || 0) === 0}
             className="px-4 py-2.5 sm:px-6 sm:py-3 text-sm sm:text-base bg-amber-600 text-white rounded-lg hover:bg-amber-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
           >
             {actionLoading === 'clear' ? (
@@ -355,7 +574,7 @@ export default function DashboardPage() {
                 Clearing...
               </>
             ) : (
-              <>Clear Pending</>
+              <>Clear Queue</>
             )}
           </button>
           <button
@@ -367,28 +586,95 @@ export default function DashboardPage() {
           </button>
         </div>
 
-        {/* Pending Jobs */}
+        {/* Jobs by State */}
         <div className="bg-white dark:bg-gray-800 rounded-lg shadow mb-8 overflow-hidden">
           <div className="p-4 border-b border-gray-200 dark:border-gray-700 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
-            <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
-              Pending Jobs ({data?.pendingTotal ?? 0})
-            </h2>
-            {data && data.pendingTotal > 0 && (
+            <div className="flex flex-wrap items-center gap-3">
+              <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+                {STATE_LABELS[listState]} Jobs ({data?.jobsTotal ?? 0})
+              </h2>
+              <select
+                value={listState}
+                onChange={(e) => {
+                  setListState(e.target.value as QueueState);
+                  setJobsPage(1);
+                  setGroupByCompany(false);
+                }}
+                className="px-2 py-1 text-sm rounded bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300"
+              >
+                {Object.entries(STATE_LABELS).map(([state, label]) => (
+                  <option key={state} value={state}>{label}</option>
+                ))}
+              </select>
+              {listState === 'queued' && (
+                <button
+                  onClick={() => setGroupByCompany((g) => !g)}
+                  className="px-2 py-1 text-sm rounded bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300"
+                >
+                  {groupByCompany ? 'Show list' : 'Group by company'}
+                </button>
+              )}
+              {!groupByCompany && (
+                <>
+                  <select
+                    value={filters.category}
+                    onChange={(e) => updateFilter('category', e.target.value)}
+                    className="px-2 py-1 text-sm rounded bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300"
+                  >
+                    <option value="">All categories</option>
+                    {CATEGORIES.map((c) => (
+                      <option key={c.id} value={c.id}>{c.label}</option>
+                    ))}
+                  </select>
+                  <select
+                    value={filters.seniority}
+                    onChange={(e) => updateFilter('seniority', e.target.value)}
+                    className="px-2 py-1 text-sm rounded bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300"
+                  >
+                    <option value="">Any level</option>
+                    {Object.entries(SENIORITY_LABELS).map(([id, label]) => (
+                      <option key={id} value={id}>{label}</option>
+                    ))}
+                  </select>
+                  <select
+                    value={filters.education}
+                    onChange={(e) => updateFilter('education', e.target.value)}
+                    className="px-2 py-1 text-sm rounded bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300"
+                  >
+                    <option value="">Any education</option>
+                    {EDUCATION_LEVELS.map(({ label }) => (
+                      <option key={label} value={label}>{label}</option>
+                    ))}
+                  </select>
+                  <select
+                    value={filters.maxExperience}
+                    onChange={(e) => updateFilter('maxExperience', e.target.value)}
+                    className="px-2 py-1 text-sm rounded bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300"
+                  >
+                    <option value="">Any experience</option>
+                    <option value="0">No experience</option>
+                    <option value="2">Up to 2 yrs</option>
+                    <option value="5">Up to 5 yrs</option>
+                  </select>
+                </>
+              )}
+            </div>
+            {data && data.jobsTotal > 0 && !groupByCompany && (
               <div className="flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400">
                 <span>
-                  Page {pendingPage} of {Math.ceil(data.pendingTotal / PAGE_SIZE) || 1}
+                  Page {jobsPage} of {Math.ceil(data.jobsTotal / PAGE_SIZE) || 1}
                 </span>
                 <div className="flex gap-1">
                   <button
-                    onClick={() => setPendingPage((p) => Math.max(1, p - 1))}
-                    disabled={pendingPage <= 1}
+                    onClick={() => setJobsPage((p) => Math.max(1, p - 1))}
+                    disabled={jobsPage <= 1}
                     className="px-2 py-1 rounded bg-gray-100 dark:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed"
                   >
                     Prev
                   </button>
                   <button
-                    onClick={() => setPendingPage((p) => p + 1)}
-                    disabled={pendingPage >= Math.ceil(data.pendingTotal / PAGE_SIZE)}
+                    onClick={() => setJobsPage((p) => p + 1)}
+                    disabled={jobsPage >= Math.ceil(data.jobsTotal / PAGE_SIZE)}
                     className="px-2 py-1 rounded bg-gray-100 dark:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed"
                   >
                     Next
@@ -398,15 +684,56 @@ export default function DashboardPage() {
             )}
           </div>
           <div className="overflow-x-auto">
-            {data?.pendingJobs.length === 0 ? (
+            {data?.jobs.length === 0 ? (
               <p className="p-4 text-gray-500 dark:text-gray-400">
-                No pending jobs. Click &quot;Scrape Now&quot; to fetch new jobs.
+                {hasFilters
+                  ? `No ${listState} jobs match these filters.`
+                  : listState === 'queued'
+                    ? <>No queued jobs. Click &quot;Scrape Now&quot; to fetch new jobs.</>
+                    : `No ${listState} jobs in the last 30 days.`}
               </p>
+            ) : groupByCompany && data?.companies ? (
+              <div className="divide-y divide-gray-200 dark:divide-gray-700">
+                {data.companies.map((company) => (
+                  <div key={company.name} className="p-4">
+                    <div className="flex items-center gap-3">
+                      {company.logoUrl && (
+                        // eslint-disable-next-line @next/next/no-img-element
+                        <img src={company.logoUrl} alt="" className="w-8 h-8 rounded object-contain bg-white" />
+                      )}
+                      <div>
+                        <p className="font-medium text-gray-900 dark:text-white">
+                          {company.website ? (
+                            <a href={company.website} target="_blank" rel="noopener noreferrer" className="hover:underline">
+                              {company.name}
+                            </a>
+                          ) : (
+                            company.name
+                          )}
+                          <span className="ml-2 text-sm text-gray-400">({company.jobs.length})</span>
+                        </p>
+                        {(company.industry || company.size) && (
+                          <p className="text-xs text-gray-500 dark:text-gray-400">
+                            {[company.industry, company.size].filter(Boolean).join(' · ')}
+                          </p>
+                        )}
+                      </div>
+                    </div>
+                    <ul className="mt-2 ml-11 space-y-1 text-sm text-gray-600 dark:text-gray-300">
+                      {company.jobs.map((job) => (
+                        <li key={job.id}>
+                          {job.title} <span className="text-gray-400">· {job.location} · {job.jobType}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                ))}
+              </div>
             ) : (
               <>
                 {/* Mobile: card layout */}
                 <div className="md:hidden divide-y divide-gray-200 dark:divide-gray-700">
-                  {data?.pendingJobs.map((job) => (
+                  {data?.jobs.map((job) => (
                     <div
                       key={job.id}
                       className="p-4 hover:bg-gray-50 dark:hover:bg-gray-700/50"
@@ -416,12 +743,21 @@ export default function DashboardPage() {
                       </p>
                       <p className="text-sm text-gray-500 dark:text-gray-400">
                         {job.company}
+                        {job.source && <span className="ml-2 text-xs text-gray-400">via {job.source}</span>}
                       </p>
                       <div className="mt-2 flex flex-wrap gap-x-4 gap-y-1 text-sm text-gray-600 dark:text-gray-300">
                         <span>{job.location}</span>
                         <span>{job.jobType}</span>
-                        <span>{formatTime(job.scrapedAt)}</span>
+                        {job.category && <span>{job.category}</span>}
+                        <span>{formatDateTime(job.stateAt)}</span>
                       </div>
+                      {describeState(job) && (
+                        <p className="mt-1 text-xs text-gray-400">{describeState(job)}</p>
+                      )}
+                      {job.qualifications && (
+                        <p className="mt-1 text-xs text-gray-400">{job.qualifications}</p>
+                      )}
+                      {renderBoost(job)}
                     </div>
                   ))}
                 </div>
@@ -439,12 +775,12 @@ export default function DashboardPage() {
                         Type
                       </th>
                       <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">
-                        Scraped
+                        {STATE_LABELS[listState]}
                       </th>
                     </tr>
                   </thead>
                   <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
-                    {data?.pendingJobs.map((job) => (
+                    {data?.jobs.map((job) => (
                       <tr key={job.id} className="hover:bg-gray-50 dark:hover:bg-gray-700">
                         <td className="px-4 py-3">
                           <div>
@@ -453,7 +789,11 @@ export default function DashboardPage() {
                             </p>
                             <p className="text-sm text-gray-500 dark:text-gray-400">
                               {job.company}
+                              {job.source && <span className="ml-2 text-xs text-gray-400">via {job.source}</span>}
                             </p>
+                            {job.qualifications && (
+                              <p className="text-xs text-gray-400">{job.qualifications}</p>
+                            )}
                           </div>
                         </td>
                         <td className="px-4 py-3 text-gray-600 dark:text-gray-300">
@@ -461,9 +801,16 @@ export default function DashboardPage() {
                         </td>
                         <td className="px-4 py-3 text-gray-600 dark:text-gray-300">
                           {job.jobType}
+                          {job.category && (
+                            <p className="text-xs text-gray-400">{job.category}</p>
+                          )}
                         </td>
                         <td className="px-4 py-3 text-gray-600 dark:text-gray-300">
-                          {formatTime(job.scrapedAt)}
+                          {formatDateTime(job.stateAt)}
+                          {describeState(job) && (
+                            <p className="text-xs text-gray-400">{describeState(job)}</p>
+                          )}
+                          {renderBoost(job)}
                         </td>
                       </tr>
                     ))}
@@ -567,10 +914,107 @@ export default function DashboardPage() {
           </div>
         </div>
 
+        {/* Scrape Targets */}
+        <PostingSchedule />
+
+        <ScrapeTargets />
+
+        {/* Bulk Import */}
+        <BulkImport onImported={() => fetchData()} />
+
+        {/* Held for Scam Review */}
+        {data?.held && data.held.length > 0 && (
+          <div className="mt-8 bg-white dark:bg-gray-800 rounded-lg shadow overflow-hidden">
+            <div className="p-4 border-b border-gray-200 dark:border-gray-700">
+              <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+                Held for Review ({data.held.length})
+              </h2>
+            </div>
+            <div className="divide-y divide-gray-200 dark:divide-gray-700">
+              {data.held.map((job) => (
+                <div
+                  key={job.id}
+                  className="p-4 flex flex-col sm:flex-row sm:items-start sm:justify-between gap-3 hover:bg-gray-50 dark:hover:bg-gray-700/50"
+                >
+                  <div>
+                    <a
+                      href={job.sourceUrl}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="font-medium text-gray-900 dark:text-white hover:underline"
+                    >
+                      {job.title}
+                    </a>
+                    <p className="text-sm text-gray-500 dark:text-gray-400">
+                      {job.company} · via {job.source} · {formatTime(job.heldAt)} · risk {job.score}/100
+                    </p>
+                    <ul className="mt-2 list-disc list-inside text-sm text-red-700 dark:text-red-400">
+                      {job.reasons.map((reason) => (
+                        <li key={reason}>{reason}</li>
+                      ))}
+                    </ul>
+                  </div>
+                  <div className="flex gap-2 shrink-0">
+                    <button
+                      onClick={() => handleReview(job.id, 'approve')}
+                      disabled={actionLoading !== null}
+                      className="px-3 py-1 text-sm rounded bg-green-600 text-white hover:bg-green-700 disabled:opacity-50"
+                    >
+                      Approve
+                    </button>
+                    <button
+                      onClick={() => handleReview(job.id, 'reject')}
+                      disabled={actionLoading !== null}
+                      className="px-3 py-1 text-sm rounded bg-red-600 text-white hover:bg-red-700 disabled:opacity-50"
+                    >
+                      Reject
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Suppressed Duplicates */}
+        {data?.duplicates && data.duplicates.length > 0 && (
+          <div className="mt-8 bg-white dark:bg-gray-800 rounded-lg shadow overflow-hidden">
+            <div className="p-4 border-b border-gray-200 dark:border-gray-700">
+              <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+                Duplicates Suppressed Today ({data.duplicates.length})
+              </h2>
+            </div>
+            <div className="divide-y divide-gray-200 dark:divide-gray-700">
+              {data.duplicates.map((dup) => (
+                <div key={dup.id} className="p-4 hover:bg-gray-50 dark:hover:bg-gray-700/50">
+                  <a
+                    href={dup.sourceUrl}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="font-medium text-gray-900 dark:text-white hover:underline"
+                  >
+                    {dup.title}
+                  </a>
+                  <p className="text-sm text-gray-500 dark:text-gray-400">
+                    {dup.company} · via {dup.source} · {formatTime(dup.detectedAt)}
+                  </p>
+                  <p className="mt-2 text-sm text-gray-600 dark:text-gray-300">
+                    Matched {dup.matchedTitle} at {dup.matchedCompany} (via {dup.matchedSource},{' '}
+                    {Math.round(dup.similarity * 100)}% similar)
+                  </p>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Footer */}
         <div className="mt-8 text-center text-sm text-gray-500 dark:text-gray-400">
-          <p>Scrapes every 40 min, posts every 10 min via Upstash QStash</p>
-          <p className="mt-1">Last refreshed: {new Date().toLocaleTimeString()}</p>
+          <p>Scrapes every 40 min and checks for a posting slot every 10 min via Upstash QStash</p>
+          <p className="mt-1">
+            Last refreshed: {formatTime(new Date().toISOString())}
+            {data?.timezone && ` (${data.timezone} time)`}
+          </p>
         </div>
 
         {/* Preview Modal */}
@@ -602,7 +1046,15 @@ export default function DashboardPage() {
                       className="border border-gray-200 dark:border-gray-700 rounded-lg overflow-hidden"
                     >
                       <div className="px-4 py-3 bg-gray-50 dark:bg-gray-700/50">
-                        <p className="font-medium text-gray-900 dark:text-white">{item.title}</p>
+                        <p className="font-medium text-gray-900 dark:text-white">
+                          {item.title}
+                          <span className="ml-2 text-sm font-normal text-gray-500 dark:text-gray-400">
+                            score {item.score}
+                          </span>
+                        </p>
+                        <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                          {item.reasons.map((r) => `${r.detail} (${formatPoints(r.points)})`).join(' · ')}
+                        </p>
                       </div>
                       <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 p-4">
                         <div className="bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 overflow-hidden shadow-sm">
@@ -641,6 +1093,23 @@ export default function DashboardPage() {
                     No jobs to preview. Scrape first or jobs may be excluded.
                   </p>
                 )}
+                {!previewLoading && runnersUp.length > 0 && (
+                  <div>
+                    <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300">Next in line</h3>
+                    <ul className="mt-2 space-y-2 text-sm">
+                      {runnersUp.map((item) => (
+                        <li key={item.jobId}>
+                          <p className="text-gray-900 dark:text-white">
+                            {item.title} <span className="text-gray-500 dark:text-gray-400">· score {item.score}</span>
+                          </p>
+                          <p className="text-xs text-gray-500 dark:text-gray-400">
+                            {item.reasons.map((r) => `${r.detail} (${formatPoints(r.points)})`).join(' · ')}
+                          </p>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
               </div>
             </div>
           </div>
@@ -0,0 +1,258 @@
+'use client';
+
+import { useState } from 'react';
+
+interface ImportFieldInfo {
+  id: string;
+  label: string;
+  required: boolean;
+}
+
+interface PreviewRow {
+  row: number;
+  title: string;
+  company: string;
+  location: string;
+  jobType: string;
+  applyUrl: string;
+  errors: string[];
+}
+
+interface ImportPreview {
+  format: 'csv' | 'json';
+  columns: string[];
+  fields: ImportFieldInfo[];
+  mapping: Record<string, string>;
+  missing: string[];
+  rowCount: number;
+  validCount: number;
+  preview: PreviewRow[];
+}
+
+interface RowReport {
+  row: number;
+  title: string;
+  company: string;
+  reasons: string[];
+}
+
+interface ImportReport {
+  total: number;
+  queued: number;
+  held: RowReport[];
+  rejected: RowReport[];
+}
+
+interface BulkImportProps {
+  /** Called after rows were imported, to refresh the queue */
+  onImported: () => void;
+}
+
+export default function BulkImport({ onImported }: BulkImportProps) {
+  const [fileName, setFileName] = useState('');
+  const [content, setContent] = useState('');
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const requestImport = async (body: Record<string, unknown>) => {
+    const response = await fetch('/api/import/bulk', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+    const result = await response.json();
+    if (!result.success) throw new Error(result.error || 'Import failed');
+    return result;
+  };
+
+  const loadPreview = async (text: string, format: string | undefined, mapping?: Record<string, string>) => {
+    setLoading(true);
+    setError(null);
+    setReport(null);
+    try {
+      setPreview(await requestImport({ content: text, format, mapping }));
+    } catch (err) {
+      setPreview(null);
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    // Max 2MB
+    if (file.size > 2 * 1024 * 1024) {
+      setError('File must be less than 2MB');
+      return;
+    }
+    const text = await file.text();
+    setFileName(file.name);
+    setContent(text);
+    const format = /\.json$/i.test(file.name) ? 'json' : /\.(?:csv|tsv|txt)$/i.test(file.name) ? 'csv' : undefined;
+    await loadPreview(text, format);
+  };
+
+  const handleMappingChange = (field: string, column: string) => {
+    if (!preview) return;
+    const mapping = { ...preview.mapping };
+    if (column) {
+      mapping[field] = column;
+    } else {
+      delete mapping[field];
+    }
+    loadPreview(content, preview.format, mapping);
+  };
+
+  const handleImport = async () => {
+    if (!preview) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const result = await requestImport({ content, format: preview.format, mapping: preview.mapping, commit: true });
+      setReport(result.report);
+      setPreview(null);
+      onImported();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="mt-8 bg-white dark:bg-gray-800 rounded-lg shadow overflow-hidden">
+      <div className="p-4 border-b border-gray-200 dark:border-gray-700">
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Bulk Import</h2>
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Upload a CSV (with a header row) or JSON file of jobs to add them to the queue
+        </p>
+      </div>
+      <div className="p-4 space-y-4">
+        <label className="inline-block px-4 py-2 text-sm bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 rounded-lg cursor-pointer hover:bg-gray-200 dark:hover:bg-gray-600">
+          {fileName ? `Change file (${fileName})` : 'Choose CSV or JSON file'}
+          <input
+            type="file"
+            accept=".csv,.tsv,.txt,.json,text/csv,application/json"
+            onChange={handleFileChange}
+            disabled={loading}
+            className="hidden"
+          />
+        </label>
+
+        {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+        {preview && (
+          <>
+            <div>
+              <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Column mapping</h3>
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                {preview.fields.map((field) => (
+                  <label key={field.id} className="text-sm text-gray-600 dark:text-gray-400">
+                    {field.label}
+                    {field.required && <span className="text-red-500"> *</span>}
+                    <select
+                      value={preview.mapping[field.id] ?? ''}
+                      onChange={(e) => handleMappingChange(field.id, e.target.value)}
+                      disabled={loading}
+                      className="mt-1 block w-full px-2 py-1.5 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                    >
+                      <option value="">(not mapped)</option>
+                      {preview.columns.map((column) => (
+                        <option key={column} value={column}>
+                          {column}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                ))}
+              </div>
+              {preview.missing.length > 0 && (
+                <p className="mt-2 text-sm text-red-600 dark:text-red-400">
+                  Map a column to: {preview.missing.join(', ')}
+                </p>
+              )}
+            </div>
+
+            <div>
+              <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Preview ({preview.validCount} of {preview.rowCount} rows valid)
+              </h3>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-50 dark:bg-gray-700">
+                    <tr>
+                      <th className="px-3 py-2 text-left text-gray-500 dark:text-gray-300">Row</th>
+                      <th className="px-3 py-2 text-left text-gray-500 dark:text-gray-300">Title</th>
+                      <th className="px-3 py-2 text-left text-gray-500 dark:text-gray-300">Company</th>
+                      <th className="px-3 py-2 text-left text-gray-500 dark:text-gray-300">Location</th>
+                      <th className="px-3 py-2 text-left text-gray-500 dark:text-gray-300">Apply</th>
+                      <th className="px-3 py-2 text-left text-gray-500 dark:text-gray-300">Problems</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                    {preview.preview.map((row) => (
+                      <tr key={row.row}>
+                        <td className="px-3 py-2 text-gray-500 dark:text-gray-400">{row.row}</td>
+                        <td className="px-3 py-2 text-gray-900 dark:text-white">{row.title}</td>
+                        <td className="px-3 py-2 text-gray-600 dark:text-gray-300">{row.company}</td>
+                        <td className="px-3 py-2 text-gray-600 dark:text-gray-300">{row.location}</td>
+                        <td className="px-3 py-2 text-gray-600 dark:text-gray-300 break-all">{row.applyUrl}</td>
+                        <td className="px-3 py-2 text-red-600 dark:text-red-400">{row.errors.join('; ')}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+
+            <button
+              onClick={handleImport}
+              disabled={loading || preview.missing.length > 0 || preview.validCount === 0}
+              className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {loading ? 'Importing...' : `Import ${preview.rowCount} rows`}
+            </button>
+          </>
+        )}
+
+        {report && (
+          <div className="space-y-3">
+            <p className="text-sm text-green-700 dark:text-green-400">
+              {report.queued} of {report.total} jobs queued · {report.held.length} held for review ·{' '}
+              {report.rejected.length} rejected
+            </p>
+            {report.held.length > 0 && (
+              <div>
+                <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300">Held for scam review</h3>
+                <ul className="mt-1 text-sm text-gray-600 dark:text-gray-300 space-y-1">
+                  {report.held.map((row) => (
+                    <li key={row.row}>
+                      Row {row.row}: {row.title} at {row.company} - {row.reasons.join('; ')}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            {report.rejected.length > 0 && (
+              <div>
+                <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300">Rejected rows</h3>
+                <ul className="mt-1 text-sm text-red-700 dark:text-red-400 space-y-1">
+                  {report.rejected.map((row) => (
+                    <li key={row.row}>
+                      Row {row.row}: {row.title || '(no title)'}
+                      {row.company && ` at ${row.company}`} - {row.reasons.join('; ')}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -3,11 +3,16 @@
 import { useState, useMemo, FormEvent } from 'react';
 import {
   JobData,
+  formatSalary,
   formatTwitterMessage,
   getCharacterStatus,
   parseJobDescription,
   parsePastedJob,
+  parseSalary,
+  suggestHashtags,
 } from '@/lib/utils';
+import { CATEGORIES, JobCategoryId } from '@/lib/categories';
+import type { ScrapedJob } from '@/lib/scraper';
 import CharacterCounter from './CharacterCounter';
 import ImageUpload from './ImageUpload';
 import PostPreview from './PostPreview';
@@ -22,6 +27,11 @@ interface PostResult {
     success: boolean;
     error?: string;
   };
+  categoryChannel?: {
+    category: string;
+    success: boolean;
+    error?: string;
+  };
 }
 
 export default function JobForm() {
@@ -29,11 +39,16 @@ export default function JobForm() {
   const [company, setCompany] = useState('');
   const [location, setLocation] = useState('');
   const [jobType, setJobType] = useState('');
+  const [category, setCategory] = useState<JobCategoryId | ''>('');
   const [description, setDescription] = useState('');
   const [applyLink, setApplyLink] = useState('');
+  const [salaryInput, setSalaryInput] = useState('');
   const [hashtagInput, setHashtagInput] = useState('');
   const [image, setImage] = useState<string | undefined>();
   const [pasteArea, setPasteArea] = useState('');
+  const [importUrl, setImportUrl] = useState('');
+  const [importing, setImporting] = useState(false);
+  const [importMessage, setImportMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
 
   const [isPosting, setIsPosting] = useState(false);
   const [result, setResult] = useState<PostResult | null>(null);
@@ -46,6 +61,8 @@ export default function JobForm() {
       .filter(Boolean);
   }, [hashtagInput]);
 
+  const salary = useMemo(() => parseSalary(salaryInput) ?? undefined, [salaryInput]);
+
   const jobData: JobData = useMemo(
     () => ({
       title: title || 'Job Title',
@@ -55,9 +72,11 @@ export default function JobForm() {
       description: description || 'Job description...',
       applyLink: applyLink || 'https://example.com',
       hashtags,
+      salary,
+      category: category || undefined,
       image,
     }),
-    [title, company, location, jobType, description, applyLink, hashtags, image]
+    [title, company, location, jobType, description, applyLink, hashtags, salary, category, image]
   );
 
   const twitterMessage = useMemo(() => formatTwitterMessage(jobData), [jobData]);
@@ -88,6 +107,8 @@ export default function JobForm() {
             description,
             applyLink,
             hashtags,
+            salary,
+            category: category || undefined,
             image,
           },
           platforms,
@@ -116,14 +137,52 @@ export default function JobForm() {
     if (parsed.company) setCompany(parsed.company);
     if (parsed.location) setLocation(parsed.location);
     if (parsed.jobType) setJobType(parsed.jobType);
+    if (parsed.category) setCategory(parsed.category);
     if (parsed.description) setDescription(parsed.description);
     if (parsed.applyLink) setApplyLink(parsed.applyLink);
+    if (parsed.salary) setSalaryInput(formatSalary(parsed.salary));
     if (parsed.suggestedHashtags.length > 0) {
       setHashtagInput(parsed.suggestedHashtags.join(', '));
     }
     setPasteArea('');
   };
 
+  const handleImportUrl = async (enqueue: boolean) => {
+    setImporting(true);
+    setImportMessage(null);
+    try {
+      const response = await fetch('/api/import', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ url: importUrl, enqueue }),
+      });
+      const data = await response.json();
+      if (!data.success) {
+        setImportMessage({ type: 'error', text: data.error || 'Import failed' });
+        return;
+      }
+
+      if (!enqueue) {
+        const job: ScrapedJob = data.job;
+        setTitle(job.title);
+        setCompany(job.company);
+        setLocation(job.location);
+        setJobType(job.jobType);
+        setDescription(job.description);
+        setApplyLink(job.applyUrl.replace(/^mailto:/, ''));
+        setSalaryInput(job.salary ? formatSalary(job.salary) : job.salaryText ?? '');
+        if (job.category) setCategory(job.category);
+        setHashtagInput(suggestHashtags({ ...job, applyLink: job.applyUrl }).join(', '));
+      }
+      setImportMessage({ type: 'success', text: data.message });
+      setImportUrl('');
+    } catch (err) {
+      setImportMessage({ type: 'error', text: err instanceof Error ? err.message : 'Unknown error' });
+    } finally {
+      setImporting(false);
+    }
+  };
+
   const handlePasteAreaPaste = (e: React.ClipboardEvent) => {
     const pasted = e.clipboardData.getData('text');
     if (pasted.trim().length > 50) {
@@ -146,7 +205,7 @@ export default function JobForm() {
             Paste job (optional)
           </label>
           <p className="text-xs text-gray-500 mb-2">
-            Paste raw job text from LinkedIn, Indeed, or any job board. We&apos;ll extract title, company, location, job type, description, apply link/email, and suggest hashtags.
+            Paste raw job text from LinkedIn, Indeed, or any job board. We&apos;ll extract title, company, location, job type, salary, description, apply link/email, and suggest hashtags.
           </p>
           <div className="flex gap-2">
             <textarea
@@ -166,6 +225,39 @@ export default function JobForm() {
               Extract fields
             </button>
           </div>
+          <p className="text-xs text-gray-500 mt-3 mb-2">
+            Or import a listing by URL - fill this form from it, or add it straight to the auto-post queue.
+          </p>
+          <div className="flex flex-col sm:flex-row gap-2">
+            <input
+              type="url"
+              value={importUrl}
+              onChange={(e) => setImportUrl(e.target.value)}
+              placeholder="https://www.myjobmag.com/job/..."
+              className="flex-1 px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            <button
+              type="button"
+              onClick={() => handleImportUrl(false)}
+              disabled={!importUrl.trim() || importing}
+              className="px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed whitespace-nowrap"
+            >
+              {importing ? 'Importing...' : 'Fill form'}
+            </button>
+            <button
+              type="button"
+              onClick={() => handleImportUrl(true)}
+              disabled={!importUrl.trim() || importing}
+              className="px-4 py-2 bg-gray-700 text-white text-sm font-medium rounded-lg hover:bg-gray-800 disabled:opacity-50 disabled:cursor-not-allowed whitespace-nowrap"
+            >
+              Add to queue
+            </button>
+          </div>
+          {importMessage && (
+            <p className={`mt-2 text-sm ${importMessage.type === 'success' ? 'text-green-700' : 'text-red-700'}`}>
+              {importMessage.text}
+            </p>
+          )}
         </div>
 
         {/* Form fields - stack on mobile, 2 cols on tablet+ */}
@@ -231,6 +323,45 @@ export default function JobForm() {
               <option>Internship</option>
             </select>
           </div>
+
+          {/* Category */}
+          <div className="sm:col-span-2">
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Category (Optional)
+            </label>
+            <select
+              value={category}
+              onChange={(e) => setCategory(e.target.value as JobCategoryId | '')}
+              className="w-full px-3 py-3 sm:py-2 text-base sm:text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white"
+            >
+              <option value="">—</option>
+              {CATEGORIES.map((c) => (
+                <option key={c.id} value={c.id}>{c.label}</option>
+              ))}
+            </select>
+            <p className="mt-1 text-xs text-gray-500">
+              Suggested from pasted text; posts also go to the category&apos;s Telegram channel if it has one
+            </p>
+          </div>
+
+          {/* Salary */}
+          <div className="sm:col-span-2">
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Salary (Optional)
+            </label>
+            <input
+              type="text"
+              value={salaryInput}
+              onChange={(e) => setSalaryInput(e.target.value)}
+              placeholder="e.g., ₦150,000 - ₦250,000 monthly"
+              className="w-full px-3 py-3 sm:py-2 text-base sm:text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            {salaryInput.trim() && (
+              <p className="mt-1 text-xs text-gray-500">
+                {salary ? `Will show as: ${formatSalary(salary)}` : 'Could not read a salary - include a currency, e.g. ₦200,000 monthly'}
+              </p>
+            )}
+          </div>
         </div>
 
         {/* Description - Full width */}
@@ -418,6 +549,20 @@ export default function JobForm() {
                   : result.telegram.error}
               </div>
             )}
+            {result.categoryChannel && (
+              <div
+                className={`p-3 sm:p-4 rounded-lg text-sm ${
+                  result.categoryChannel.success
+                    ? 'bg-green-50 border border-green-200 text-green-700'
+                    : 'bg-red-50 border border-red-200 text-red-700'
+                }`}
+              >
+                <strong>Telegram ({result.categoryChannel.category} channel):</strong>{' '}
+                {result.categoryChannel.success
+                  ? 'Posted successfully!'
+                  : result.categoryChannel.error}
+              </div>
+            )}
           </div>
         )}
       </form>
@@ -0,0 +1,286 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+
+interface PostingSlot {
+  time: string;
+  jobs: number;
+}
+
+interface Schedule {
+  weekday: PostingSlot[];
+  weekend: PostingSlot[];
+  quietHours: { start: string; end: string } | null;
+}
+
+interface UpcomingSlot extends PostingSlot {
+  date: string;
+  at: string;
+  planned: { id: string; title: string; company: string }[];
+}
+
+type Profile = 'weekday' | 'weekend';
+
+const PROFILE_LABELS: Record<Profile, string> = { weekday: 'Weekdays', weekend: 'Weekends' };
+
+export default function PostingSchedule() {
+  const [schedule, setSchedule] = useState<Schedule | null>(null);
+  const [draft, setDraft] = useState<Schedule | null>(null);
+  const [saved, setSaved] = useState(false);
+  const [timezone, setTimezone] = useState('Africa/Lagos');
+  const [upcoming, setUpcoming] = useState<UpcomingSlot[]>([]);
+  const [editing, setEditing] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchSchedule = useCallback(async () => {
+    try {
+      const response = await fetch('/api/schedule');
+      const result = await response.json();
+      if (!result.success) throw new Error(result.error || 'Failed to load the posting schedule');
+      setSchedule(result.schedule);
+      setSaved(result.saved);
+      setTimezone(result.timezone);
+      setUpcoming(result.upcoming);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSchedule();
+  }, [fetchSchedule]);
+
+  const request = async (init: RequestInit) => {
+    setBusy(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/schedule', init);
+      const result = await response.json();
+      if (!result.success) throw new Error(result.error || 'Request failed');
+      setEditing(false);
+      await fetchSchedule();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    request({
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(draft),
+    });
+  };
+
+  const handleReset = () => {
+    if (!confirm('Go back to the default posting schedule?')) return;
+    request({ method: 'DELETE' });
+  };
+
+  const startEditing = () => {
+    setDraft(schedule);
+    setEditing(true);
+  };
+
+  const updateSlot = (profile: Profile, index: number, slot: PostingSlot | null) => {
+    if (!draft) return;
+    const slots = [...draft[profile]];
+    if (slot) {
+      slots[index] = slot;
+    } else {
+      slots.splice(index, 1);
+    }
+    setDraft({ ...draft, [profile]: slots });
+  };
+
+  const formatSlot = (at: string) =>
+    new Date(at).toLocaleString('en-GB', {
+      timeZone: timezone,
+      weekday: 'short',
+      day: 'numeric',
+      month: 'short',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+
+  const describeProfile = (slots: PostingSlot[]) =>
+    slots.length === 0 ? 'no posts' : slots.map((s) => `${s.time} (${s.jobs})`).join(', ');
+
+  return (
+    <div className="mt-8 bg-white dark:bg-gray-800 rounded-lg shadow overflow-hidden">
+      <div className="p-4 border-b border-gray-200 dark:border-gray-700 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Posting Schedule</h2>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            {saved ? 'Slots' : 'Default slots'} in {timezone} time - auto-post only posts during a slot
+          </p>
+        </div>
+        {!editing && (
+          <div className="flex gap-2">
+            <button
+              onClick={startEditing}
+              disabled={!schedule}
+              className="px-3 py-1 text-sm rounded bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-50"
+            >
+              Edit
+            </button>
+            {saved && (
+              <button
+                onClick={handleReset}
+                disabled={busy}
+                className="px-3 py-1 text-sm rounded bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-50"
+              >
+                Use default
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+
+      {error && <p className="px-4 pt-4 text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+      {editing && draft ? (
+        <form onSubmit={handleSave} className="p-4 space-y-4">
+          {(['weekday', 'weekend'] as Profile[]).map((profile) => (
+            <div key={profile}>
+              <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">{PROFILE_LABELS[profile]}</h3>
+              <div className="flex flex-wrap gap-3">
+                {draft[profile].map((slot, index) => (
+                  <div key={index} className="flex items-center gap-1 text-sm text-gray-600 dark:text-gray-400">
+                    <input
+                      type="time"
+                      value={slot.time}
+                      onChange={(e) => updateSlot(profile, index, { ...slot, time: e.target.value })}
+                      required
+                      className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                    />
+                    <input
+                      type="number"
+                      min={1}
+                      max={10}
+                      value={slot.jobs}
+                      onChange={(e) => updateSlot(profile, index, { ...slot, jobs: Number(e.target.value) })}
+                      title="Jobs posted in this slot"
+                      className="w-14 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => updateSlot(profile, index, null)}
+                      className="px-1 text-gray-400 hover:text-red-600"
+                      aria-label="Remove slot"
+                    >
+                      &times;
+                    </button>
+                  </div>
+                ))}
+                <button
+                  type="button"
+                  onClick={() => setDraft({ ...draft, [profile]: [...draft[profile], { time: '12:00', jobs: 2 }] })}
+                  className="px-2 py-1 text-sm rounded bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-600"
+                >
+                  Add slot
+                </button>
+              </div>
+            </div>
+          ))}
+
+          <div className="flex flex-wrap items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={draft.quietHours !== null}
+                onChange={(e) =>
+                  setDraft({ ...draft, quietHours: e.target.checked ? { start: '22:00', end: '07:00' } : null })
+                }
+              />
+              Quiet hours
+            </label>
+            {draft.quietHours && (
+              <>
+                <input
+                  type="time"
+                  value={draft.quietHours.start}
+                  onChange={(e) => setDraft({ ...draft, quietHours: { ...draft.quietHours!, start: e.target.value } })}
+                  required
+                  className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                />
+                to
+                <input
+                  type="time"
+                  value={draft.quietHours.end}
+                  onChange={(e) => setDraft({ ...draft, quietHours: { ...draft.quietHours!, end: e.target.value } })}
+                  required
+                  className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                />
+                <span className="text-xs text-gray-400">(slots in these hours are silenced)</span>
+              </>
+            )}
+          </div>
+
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={busy}
+              className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Save schedule
+            </button>
+            <button
+              type="button"
+              onClick={() => setEditing(false)}
+              className="px-4 py-2 text-sm rounded-lg bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-600"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      ) : (
+        <div className="p-4 space-y-4">
+          {schedule && (
+            <div className="text-sm text-gray-600 dark:text-gray-300 space-y-1">
+              <p>Weekdays: {describeProfile(schedule.weekday)}</p>
+              <p>Weekends: {describeProfile(schedule.weekend)}</p>
+              <p>
+                Quiet hours:{' '}
+                {schedule.quietHours ? `${schedule.quietHours.start} - ${schedule.quietHours.end}` : 'none'}
+              </p>
+            </div>
+          )}
+
+          <div>
+            <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Next planned posts</h3>
+            {upcoming.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">No slots in the coming week.</p>
+            ) : (
+              <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+                {upcoming.map((slot) => (
+                  <li key={`${slot.date}-${slot.time}`} className="py-2 text-sm">
+                    <p className="font-medium text-gray-900 dark:text-white">
+                      {formatSlot(slot.at)}
+                      <span className="ml-2 font-normal text-gray-400">{slot.jobs} job(s)</span>
+                    </p>
+                    {slot.planned.length > 0 ? (
+                      <ul className="mt-1 text-gray-600 dark:text-gray-300">
+                        {slot.planned.map((job) => (
+                          <li key={job.id}>
+                            {job.title} <span className="text-gray-400">at {job.company}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    ) : (
+                      <p className="mt-1 text-gray-400">Nothing queued for this slot yet</p>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,213 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+
+interface ScrapeTarget {
+  id: string;
+  label: string;
+  source: string;
+  listingsUrl: string;
+  maxPages: number;
+  maxJobs: number;
+  enabled: boolean;
+}
+
+interface SourceOption {
+  name: string;
+  label: string;
+  defaultListingsUrl: string;
+}
+
+type TargetDraft = Omit<ScrapeTarget, 'id' | 'enabled'>;
+
+const EMPTY_DRAFT: TargetDraft = { label: '', source: '', listingsUrl: '', maxPages: 3, maxJobs: 30 };
+
+export default function ScrapeTargets() {
+  const [targets, setTargets] = useState<ScrapeTarget[]>([]);
+  const [saved, setSaved] = useState(false);
+  const [sources, setSources] = useState<SourceOption[]>([]);
+  const [limits, setLimits] = useState({ maxPages: 10, maxJobs: 100 });
+  const [draft, setDraft] = useState<TargetDraft>(EMPTY_DRAFT);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchTargets = useCallback(async () => {
+    try {
+      const response = await fetch('/api/scrape/targets');
+      const result = await response.json();
+      if (!result.success) throw new Error(result.error || 'Failed to load scrape targets');
+      setTargets(result.targets);
+      setSaved(result.saved);
+      setSources(result.sources);
+      setLimits(result.limits);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchTargets();
+  }, [fetchTargets]);
+
+  const request = async (init: RequestInit, query: string = '') => {
+    setBusy(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/scrape/targets${query}`, init);
+      const result = await response.json();
+      if (!result.success) throw new Error(result.error || 'Request failed');
+      await fetchTargets();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const saveTarget = (target: Partial<ScrapeTarget>) =>
+    request({
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(target),
+    });
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (await saveTarget(draft)) setDraft(EMPTY_DRAFT);
+  };
+
+  const handleDelete = (target: ScrapeTarget) => {
+    if (!confirm(`Delete scrape target "${target.label}"?`)) return;
+    request({ method: 'DELETE' }, `?id=${encodeURIComponent(target.id)}`);
+  };
+
+  const sourceLabel = (name: string) => sources.find((s) => s.name === name)?.label ?? name;
+  const draftSource = sources.find((s) => s.name === draft.source);
+
+  return (
+    <div className="mt-8 bg-white dark:bg-gray-800 rounded-lg shadow overflow-hidden">
+      <div className="p-4 border-b border-gray-200 dark:border-gray-700">
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Scrape Targets ({targets.length})</h2>
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          {saved
+            ? 'Listings read on each scrape run'
+            : "Using each source's latest listings - add a target (e.g. an industry or location listing) to customise"}
+        </p>
+      </div>
+
+      {error && <p className="px-4 pt-4 text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+      <div className="divide-y divide-gray-200 dark:divide-gray-700">
+        {targets.map((target) => (
+          <div
+            key={target.id}
+            className="p-4 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 hover:bg-gray-50 dark:hover:bg-gray-700/50"
+          >
+            <div className={target.enabled ? '' : 'opacity-50'}>
+              <p className="font-medium text-gray-900 dark:text-white">{target.label}</p>
+              <a
+                href={target.listingsUrl}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-sm text-blue-600 dark:text-blue-400 hover:underline break-all"
+              >
+                {target.listingsUrl}
+              </a>
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                {sourceLabel(target.source)} · {target.maxPages} page(s) · up to {target.maxJobs} jobs per run
+              </p>
+            </div>
+            <div className="flex gap-2 shrink-0">
+              <button
+                onClick={() => saveTarget({ ...target, enabled: !target.enabled })}
+                disabled={busy}
+                className="px-3 py-1 text-sm rounded bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-50"
+              >
+                {target.enabled ? 'Disable' : 'Enable'}
+              </button>
+              <button
+                onClick={() => handleDelete(target)}
+                disabled={busy}
+                className="px-3 py-1 text-sm rounded bg-red-600 text-white hover:bg-red-700 disabled:opacity-50"
+              >
+                Delete
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <form onSubmit={handleAdd} className="p-4 border-t border-gray-200 dark:border-gray-700 grid grid-cols-1 sm:grid-cols-6 gap-3 items-end">
+        <label className="text-sm text-gray-600 dark:text-gray-400 sm:col-span-1">
+          Source
+          <select
+            value={draft.source}
+            onChange={(e) => setDraft({ ...draft, source: e.target.value })}
+            required
+            className="mt-1 block w-full px-2 py-1.5 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+          >
+            <option value="">Choose...</option>
+            {sources.map((s) => (
+              <option key={s.name} value={s.name}>
+                {s.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="text-sm text-gray-600 dark:text-gray-400 sm:col-span-2">
+          Listings URL
+          <input
+            type="url"
+            value={draft.listingsUrl}
+            onChange={(e) => setDraft({ ...draft, listingsUrl: e.target.value })}
+            placeholder={draftSource?.defaultListingsUrl ?? 'https://www.myjobmag.com/jobs-location/lagos'}
+            className="mt-1 block w-full px-2 py-1.5 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+          />
+        </label>
+        <label className="text-sm text-gray-600 dark:text-gray-400">
+          Label
+          <input
+            type="text"
+            value={draft.label}
+            onChange={(e) => setDraft({ ...draft, label: e.target.value })}
+            placeholder="e.g. Lagos jobs"
+            className="mt-1 block w-full px-2 py-1.5 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+          />
+        </label>
+        <div className="grid grid-cols-2 gap-2">
+          <label className="text-sm text-gray-600 dark:text-gray-400">
+            Pages
+            <input
+              type="number"
+              min={1}
+              max={limits.maxPages}
+              value={draft.maxPages}
+              onChange={(e) => setDraft({ ...draft, maxPages: Number(e.target.value) })}
+              className="mt-1 block w-full px-2 py-1.5 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+            />
+          </label>
+          <label className="text-sm text-gray-600 dark:text-gray-400">
+            Jobs
+            <input
+              type="number"
+              min={1}
+              max={limits.maxJobs}
+              value={draft.maxJobs}
+              onChange={(e) => setDraft({ ...draft, maxJobs: Number(e.target.value) })}
+              className="mt-1 block w-full px-2 py-1.5 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+            />
+          </label>
+        </div>
+        <button
+          type="submit"
+          disabled={busy || !draft.source}
+          className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Add target
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,339 @@
+/**
+ * Bulk import of jobs from a CSV or JSON file, e.g. a spreadsheet from a partner.
+ * Columns are mapped to job fields, and every row goes through the same validation,
+ * exclusion, scam and duplicate checks as jobs posted by hand or scraped.
+ */
+
+import type { ScrapedJob } from './scraper';
+import { parseDeadlineDate, validateJobData } from './utils';
+import { isJobExcluded } from './excludedJobs';
+import { buildScrapedJob, ExtractedJobFields } from './sources/shared';
+import { addJobsToQueue, getJobQueueStatuses, holdJobsForReview, JobQueueStatus } from './jobQueue';
+import { assessScamRisk, needsReview } from './scamRisk';
+import { DUPLICATE_SIMILARITY } from './fingerprint';
+
+export type ImportFormat = 'csv' | 'json';
+
+/** Job fields a file column can be mapped to */
+export type ImportField = keyof Pick<
+  ExtractedJobFields,
+  'title' | 'company' | 'location' | 'jobType' | 'description' | 'applyUrl' | 'salaryText' | 'deadline'
+> | 'sourceUrl' | 'maxQueueDays';
+
+/** Which file column feeds each job field */
+export type ColumnMapping = Partial<Record<ImportField, string>>;
+
+export interface ImportTable {
+  columns: string[];
+  rows: Record<string, string>[];
+}
+
+/** Mappable fields, with header names commonly used for them */
+export const IMPORT_FIELDS: { id: ImportField; label: string; required: boolean; headers: RegExp }[] = [
+  { id: 'title', label: 'Job title', required: true, headers: /^(?:job\s*)?(?:title|position|role|vacancy)$/i },
+  { id: 'company', label: 'Company', required: true, headers: /^(?:company|employer|organi[sz]ation|hiring\s*company)(?:\s*name)?$/i },
+  { id: 'location', label: 'Location', required: false, headers: /^(?:job\s*)?(?:location|city|state)$/i },
+  { id: 'jobType', label: 'Job type', required: false, headers: /^(?:job|employment)?\s*type$/i },
+  { id: 'description', label: 'Description', required: true, headers: /^(?:job\s*)?(?:description|details|summary)$/i },
+  { id: 'applyUrl', label: 'Apply link or email', required: true, headers: /^(?:apply|application|how\s*to\s*apply)(?:\s*(?:link|url|email|to))?$|^(?:email|apply\s*email)$/i },
+  { id: 'salaryText', label: 'Salary', required: false, headers: /^(?:salary|pay|compensation|remuneration)$/i },
+  { id: 'deadline', label: 'Deadline', required: false, headers: /^(?:deadline|closing\s*date|application\s*deadline)$/i },
+  { id: 'sourceUrl', label: 'Listing URL', required: false, headers: /^(?:source|listing|job)?\s*(?:url|link)$/i },
+  { id: 'maxQueueDays', label: 'Days in queue', required: false, headers: /^(?:max\s*)?(?:queue\s*days|days\s*in\s*queue)$/i },
+];
+
+/** Rows accepted per file, to keep one upload within a request's Redis budget */
+export const MAX_IMPORT_ROWS = 500;
+
+/** Jobs imported from files are stored with this source */
+const BULK_SOURCE = 'import:bulk';
+
+/** Thrown when an uploaded file can't be read as a table of jobs */
+export class ImportFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImportFileError';
+  }
+}
+
+/**
+ * Parse CSV text into rows of cells. Handles quoted cells with commas, newlines and
+ * doubled quotes; the delimiter (comma, semicolon or tab) is taken from the header line.
+ */
+export function parseCsv(text: string): string[][] {
+  const input = text.replace(/^﻿/, '');
+  const headerLine = input.slice(0, input.search(/\r?\n|$/));
+  const delimiter = [',', ';', '\t'].reduce((best, d) =>
+    headerLine.split(d).length > headerLine.split(best).length ? d : best
+  );
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+    if (quoted) {
+      if (ch === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"' && cell === '') {
+      quoted = true;
+    } else if (ch === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && input[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += ch;
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter((r) => r.some((c) => c.trim()));
+}
+
+/** Flatten a JSON value into a cell; lists (e.g. responsibilities) become lines */
+function toCell(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (Array.isArray(value)) return value.map(toCell).filter(Boolean).join('\n');
+  if (typeof value === 'object') return '';
+  return String(value);
+}
+
+/**
+ * Read an uploaded file as a table. JSON files hold an array of job objects
+ * (or { jobs: [...] }); CSV files need a header row.
+ */
+export function parseImportFile(content: string, format: ImportFormat): ImportTable {
+  let table: ImportTable;
+
+  if (format === 'json') {
+    let data: unknown;
+    try {
+      data = JSON.parse(content);
+    } catch {
+      throw new ImportFileError('File is not valid JSON');
+    }
+    const records = Array.isArray(data) ? data : (data as { jobs?: unknown })?.jobs;
+    if (!Array.isArray(records)) {
+      throw new ImportFileError('JSON must be an array of jobs or an object with a "jobs" array');
+    }
+
+    const columns: string[] = [];
+    const rows = records.map((record) => {
+      const row: Record<string, string> = {};
+      if (record && typeof record === 'object' && !Array.isArray(record)) {
+        for (const [key, value] of Object.entries(record)) {
+          if (!columns.includes(key)) columns.push(key);
+          row[key] = toCell(value);
+        }
+      }
+      return row;
+    });
+    table = { columns, rows };
+  } else {
+    const [header, ...lines] = parseCsv(content);
+    if (!header) throw new ImportFileError('CSV file is empty');
+    const columns = header.map((c, i) => c.trim() || `Column ${i + 1}`);
+    const rows = lines.map((cells) => Object.fromEntries(columns.map((c, i) => [c, cells[i] ?? ''])));
+    table = { columns, rows };
+  }
+
+  if (table.rows.length === 0) throw new ImportFileError('File has no job rows');
+  if (table.rows.length > MAX_IMPORT_ROWS) {
+    throw new ImportFileError(`File has ${table.rows.length} rows - split it into files of at most ${MAX_IMPORT_ROWS}`);
+  }
+  return table;
+}
+
+/**
+ * Guess which column feeds each field from the header names
+ */
+export function suggestColumnMapping(columns: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  const used = new Set<string>();
+  for (const field of IMPORT_FIELDS) {
+    const column = columns.find((c) => !used.has(c) && field.headers.test(c.trim().replace(/[_-]+/g, ' ')));
+    if (column) {
+      mapping[field.id] = column;
+      used.add(column);
+    }
+  }
+  return mapping;
+}
+
+export interface MappedRow {
+  /** 1-based position among the file's job rows (not counting a CSV header) */
+  row: number;
+  title: string;
+  company: string;
+  /** Set when the row passed validation */
+  job: ScrapedJob | null;
+  /** Why the row can't be imported */
+  errors: string[];
+}
+
+/**
+ * Turn one row into a job, checking it as JobForm would (validateJobData) plus the
+ * exclusion rules. Rows without a listing URL get an ID from their title, company and
+ * apply link, so re-importing the same file is caught as a duplicate.
+ */
+export function mapImportRow(record: Record<string, string>, mapping: ColumnMapping, row: number): MappedRow {
+  const value = (field: ImportField) => {
+    const column = mapping[field];
+    return column ? (record[column] ?? '').trim() : '';
+  };
+
+  const title = value('title');
+  const company = value('company');
+  const apply = value('applyUrl');
+  const sourceUrl = value('sourceUrl');
+  const deadline = parseDeadlineDate(value('deadline'));
+
+  const { errors } = validateJobData({
+    title,
+    company,
+    location: value('location'),
+    jobType: value('jobType'),
+    description: value('description'),
+    applyLink: apply,
+    hashtags: [],
+  });
+  if (!company) errors.push('Company is required');
+  if (sourceUrl && !/^https?:\/\/\S+$/i.test(sourceUrl)) errors.push('Listing URL must start with http:// or https://');
+  if (value('deadline') && !deadline) errors.push('Deadline must be a date, e.g. 2026-10-30 or 30/10/2026');
+  const maxQueueDays = value('maxQueueDays') ? Number(value('maxQueueDays')) : undefined;
+  if (maxQueueDays !== undefined && !(Number.isInteger(maxQueueDays) && maxQueueDays > 0)) {
+    errors.push('Days in queue must be a whole number of days');
+  }
+  if (title && isJobExcluded(title)) errors.push('This job type is excluded from posting');
+  if (errors.length > 0) return { row, title, company, job: null, errors };
+
+  const applyUrl = /^[^\s@:]+@[^\s@]+$/.test(apply) ? `mailto:${apply}` : apply;
+  const key = sourceUrl || `${BULK_SOURCE}:${title}|${company}|${applyUrl}`.toLowerCase();
+  const job = buildScrapedJob(BULK_SOURCE, sourceUrl, {}, {
+    title,
+    company,
+    location: value('location'),
+    jobType: value('jobType'),
+    description: value('description'),
+    applyUrl,
+    salaryText: value('salaryText'),
+    deadline,
+  }, key);
+  if (!job) return { row, title, company, job: null, errors: ['Job title and company are required'] };
+
+  return {
+    row,
+    title,
+    company,
+    job: { ...job, ...(maxQueueDays && { maxQueueDays }) },
+    errors: [],
+  };
+}
+
+export interface ImportRowReport {
+  row: number;
+  title: string;
+  company: string;
+  reasons: string[];
+}
+
+export interface BulkImportReport {
+  total: number;
+  queued: number;
+  /** Rows held for scam review - in storage, but not queued until approved */
+  held: ImportRowReport[];
+  rejected: ImportRowReport[];
+}
+
+const EXISTING_REASONS: Record<JobQueueStatus, string> = {
+  posted: 'Already posted',
+  queued: 'Already in the queue',
+  skipped: 'Skipped from the queue earlier',
+  expired: 'Expired from the queue earlier',
+  held: 'Already held for scam review',
+  rejected: 'Rejected in an earlier scam review',
+};
+
+/**
+ * Import every row of a table into the queue and report what happened to each
+ */
+export async function importJobs(table: ImportTable, mapping: ColumnMapping): Promise<BulkImportReport> {
+  const report: BulkImportReport = { total: table.rows.length, queued: 0, held: [], rejected: [] };
+  const reject = (row: MappedRow, reasons: string[]) =>
+    report.rejected.push({ row: row.row, title: row.title, company: row.company, reasons });
+
+  const firstRowById = new Map<string, number>();
+  const toHold: MappedRow[] = [];
+  const toQueue: MappedRow[] = [];
+
+  const unique: MappedRow[] = [];
+
+  for (const [index, record] of table.rows.entries()) {
+    const mapped = mapImportRow(record, mapping, index + 1);
+    const job = mapped.job;
+    if (!job) {
+      reject(mapped, mapped.errors);
+      continue;
+    }
+
+    const firstRow = firstRowById.get(job.id);
+    if (firstRow !== undefined) {
+      reject(mapped, [`Same job as row ${firstRow}`]);
+      continue;
+    }
+    firstRowById.set(job.id, mapped.row);
+    unique.push(mapped);
+  }
+
+  const statuses = await getJobQueueStatuses(unique.map((r) => r.job!.id));
+  for (const [i, mapped] of unique.entries()) {
+    const job = mapped.job!;
+    const existing = statuses[i];
+    if (existing) {
+      reject(mapped, [EXISTING_REASONS[existing]]);
+      continue;
+    }
+
+    job.scamRisk = assessScamRisk(job);
+    if (needsReview(job, job.scamRisk)) {
+      toHold.push(mapped);
+    } else {
+      toQueue.push(mapped);
+    }
+  }
+
+  await holdJobsForReview(toHold.map((r) => r.job!));
+  for (const r of toHold) {
+    report.held.push({ row: r.row, title: r.title, company: r.company, reasons: r.job!.scamRisk!.signals.map((s) => s.reason) });
+  }
+
+  const addedIds = await addJobsToQueue(toQueue.map((r) => r.job!));
+  for (const r of toQueue) {
+    if (addedIds.includes(r.job!.id)) {
+      report.queued++;
+    } else {
+      reject(r, [`Near-duplicate of a job already queued or posted (same title, company and city, and at least ${DUPLICATE_SIMILARITY * 100}% similar description)`]);
+    }
+  }
+
+  report.rejected.sort((a, b) => a.row - b.row);
+  console.log(`Bulk import: ${report.queued} queued, ${report.held.length} held, ${report.rejected.length} rejected of ${report.total}`);
+  return report;
+}
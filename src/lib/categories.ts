@@ -0,0 +1,342 @@
+/**
+ * Job category classifier - assigns each job a function/industry category from its title and
+ * description using a keyword-weighted taxonomy
+ */
+
+import learnedWeights from './categoryWeights.json';
+
+export type JobCategoryId =
+  | 'tech'
+  | 'data'
+  | 'design'
+  | 'product'
+  | 'finance'
+  | 'sales'
+  | 'marketing'
+  | 'hr'
+  | 'admin'
+  | 'customer-service'
+  | 'engineering'
+  | 'healthcare'
+  | 'education'
+  | 'logistics'
+  | 'legal'
+  | 'hospitality'
+  | 'other';
+
+export interface JobCategory {
+  id: JobCategoryId;
+  label: string;
+  hashtag: string;
+  /** Lowercase keyword or phrase -> weight; higher weights are stronger evidence */
+  keywords: Record<string, number>;
+}
+
+/** Keyword weights learned from posted history, by category (see trainCategoryWeights) */
+export type CategoryWeights = Partial<Record<JobCategoryId, Record<string, number>>>;
+
+/** A job labeled with the category it was posted under */
+export interface CategoryExample {
+  title: string;
+  description: string;
+  category: JobCategoryId;
+}
+
+/** Title matches count this many times more than description matches */
+const TITLE_MULTIPLIER = 3;
+
+/** Description matches of a single keyword stop counting after this many */
+const MAX_DESCRIPTION_MATCHES = 3;
+
+/** Minimum score for a category to be assigned; weaker jobs fall into "other" */
+const MIN_SCORE = 3;
+
+/** Seed taxonomy. Learned weights from categoryWeights.json are merged on top. */
+const TAXONOMY: JobCategory[] = [
+  {
+    id: 'tech',
+    label: 'Tech & IT',
+    hashtag: 'TechJobs',
+    keywords: {
+      software: 3, developer: 3, programmer: 3, 'full stack': 3, fullstack: 3, frontend: 3, 'front end': 3,
+      backend: 3, 'back end': 3, devops: 3, 'cloud engineer': 3, cybersecurity: 3, 'it support': 3,
+      'network administrator': 3, 'system administrator': 3, 'systems administrator': 3, 'qa engineer': 3,
+      'mobile app': 2, react: 2, javascript: 2, typescript: 2, python: 1, java: 2, 'node.js': 2, php: 2,
+      flutter: 2, android: 2, ios: 1, kubernetes: 2, aws: 1, 'information technology': 2, ict: 2,
+    },
+  },
+  {
+    id: 'data',
+    label: 'Data & Analytics',
+    hashtag: 'DataJobs',
+    keywords: {
+      'data analyst': 4, 'data scientist': 4, 'data engineer': 4, 'business intelligence': 3, analytics: 2,
+      'machine learning': 3, sql: 2, 'power bi': 2, tableau: 2, 'data analysis': 2, statistician: 3,
+    },
+  },
+  {
+    id: 'design',
+    label: 'Design & Creative',
+    hashtag: 'Design',
+    keywords: {
+      designer: 3, 'graphic design': 3, 'ui/ux': 3, 'ux designer': 4, 'ui designer': 4, 'product designer': 4,
+      figma: 2, 'adobe photoshop': 2, illustrator: 2, 'video editor': 3, animator: 3, creative: 1,
+    },
+  },
+  {
+    id: 'product',
+    label: 'Product Management',
+    hashtag: 'ProductJobs',
+    keywords: {
+      'product manager': 4, 'product owner': 4, 'product management': 3, roadmap: 1, 'product lead': 3,
+    },
+  },
+  {
+    id: 'finance',
+    label: 'Finance & Accounting',
+    hashtag: 'Finance',
+    keywords: {
+      accountant: 4, accounting: 3, finance: 2, financial: 1, audit: 2, auditor: 3, tax: 2, treasury: 3,
+      bookkeeper: 3, 'credit analyst': 3, 'loan officer': 3, ican: 2, acca: 2, 'investment analyst': 3,
+      payroll: 2, banking: 1,
+    },
+  },
+  {
+    id: 'sales',
+    label: 'Sales & Business Development',
+    hashtag: 'Sales',
+    keywords: {
+      sales: 3, 'business development': 3, 'account executive': 3, 'relationship manager': 3, marketer: 2,
+      'field sales': 4, 'sales representative': 4, 'key account': 3, 'sales target': 2, telesales: 3,
+    },
+  },
+  {
+    id: 'marketing',
+    label: 'Marketing & Communications',
+    hashtag: 'Marketing',
+    keywords: {
+      marketing: 3, 'digital marketing': 4, brand: 2, 'social media': 3, 'content writer': 3, copywriter: 3,
+      seo: 2, communications: 2, 'public relations': 3, 'growth marketer': 4, 'content creator': 3,
+    },
+  },
+  {
+    id: 'hr',
+    label: 'Human Resources',
+    hashtag: 'HR',
+    keywords: {
+      'human resources': 4, 'human resource': 4, hr: 3, recruiter: 3, recruitment: 1, 'talent acquisition': 4,
+      'people operations': 3, cipm: 2, onboarding: 1,
+    },
+  },
+  {
+    id: 'admin',
+    label: 'Admin & Office',
+    hashtag: 'AdminJobs',
+    keywords: {
+      administrative: 3, admin: 3, secretary: 3, receptionist: 4, 'front desk': 3, 'office assistant': 4,
+      'personal assistant': 4, 'executive assistant': 4, 'office manager': 3, 'data entry': 2, clerk: 2,
+    },
+  },
+  {
+    id: 'customer-service',
+    label: 'Customer Service',
+    hashtag: 'CustomerService',
+    keywords: {
+      'customer service': 4, 'customer support': 4, 'customer care': 4, 'call center': 3, 'call centre': 3,
+      'customer experience': 3, 'client service': 3, 'contact center': 3,
+    },
+  },
+  {
+    id: 'engineering',
+    label: 'Engineering & Technical',
+    hashtag: 'EngineeringJobs',
+    keywords: {
+      mechanical: 3, electrical: 3, civil: 3, petroleum: 3, chemical: 2, technician: 3, maintenance: 2,
+      'site engineer': 4, 'quantity surveyor': 4, 'hse officer': 3, welder: 3, 'oil and gas': 2, coren: 2,
+      'production supervisor': 3, plant: 1,
+    },
+  },
+  {
+    id: 'healthcare',
+    label: 'Healthcare',
+    hashtag: 'HealthcareJobs',
+    keywords: {
+      nurse: 4, nursing: 3, doctor: 3, 'medical officer': 4, pharmacist: 4, pharmacy: 3, 'medical laboratory': 4,
+      physiotherapist: 4, clinical: 2, hospital: 2, patient: 1, midwife: 4, caregiver: 3,
+    },
+  },
+  {
+    id: 'education',
+    label: 'Education & Training',
+    hashtag: 'TeachingJobs',
+    keywords: {
+      teacher: 4, tutor: 4, lecturer: 4, school: 2, instructor: 3, teaching: 3, 'lesson plans': 2, trcn: 3,
+      curriculum: 2, facilitator: 2,
+    },
+  },
+  {
+    id: 'logistics',
+    label: 'Logistics & Supply Chain',
+    hashtag: 'LogisticsJobs',
+    keywords: {
+      logistics: 3, 'supply chain': 4, procurement: 3, warehouse: 3, driver: 3, dispatch: 3, 'dispatch rider': 4,
+      inventory: 2, storekeeper: 4, 'store keeper': 4, fleet: 2, purchasing: 2,
+    },
+  },
+  {
+    id: 'legal',
+    label: 'Legal & Compliance',
+    hashtag: 'LegalJobs',
+    keywords: {
+      lawyer: 4, legal: 3, counsel: 3, solicitor: 4, 'legal officer': 4, paralegal: 4, compliance: 2,
+      litigation: 3, 'called to the nigerian bar': 4,
+    },
+  },
+  {
+    id: 'hospitality',
+    label: 'Hospitality & Food',
+    hashtag: 'HospitalityJobs',
+    keywords: {
+      chef: 4, cook: 3, hotel: 3, waiter: 4, waitress: 4, restaurant: 3, housekeeping: 3, housekeeper: 3,
+      steward: 2, bartender: 4, 'front office': 2, catering: 3, baker: 3,
+    },
+  },
+  {
+    id: 'other',
+    label: 'Other',
+    hashtag: 'Jobs',
+    keywords: {},
+  },
+];
+
+/** Seed taxonomy with learned weights merged on top */
+export const CATEGORIES: JobCategory[] = TAXONOMY.map((category) => ({
+  ...category,
+  keywords: { ...category.keywords, ...(learnedWeights as CategoryWeights)[category.id] },
+}));
+
+const CATEGORIES_BY_ID = new Map(CATEGORIES.map((category) => [category.id, category]));
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** Keyword matchers, compiled once - keywords match whole words only */
+const MATCHERS = CATEGORIES.map((category) => ({
+  id: category.id,
+  keywords: Object.entries(category.keywords).map(([keyword, weight]) => ({
+    pattern: new RegExp(`(?<![a-z0-9])${escapeRegExp(keyword)}(?![a-z0-9])`, 'g'),
+    weight,
+  })),
+}));
+
+function countMatches(text: string, pattern: RegExp): number {
+  return text.match(pattern)?.length ?? 0;
+}
+
+/**
+ * Score every category for a job; title matches weigh more than description matches
+ */
+export function scoreCategories(title: string, description: string = ''): Partial<Record<JobCategoryId, number>> {
+  const titleText = title.toLowerCase();
+  const descriptionText = description.toLowerCase();
+  const scores: Partial<Record<JobCategoryId, number>> = {};
+
+  for (const { id, keywords } of MATCHERS) {
+    let score = 0;
+    for (const { pattern, weight } of keywords) {
+      const inTitle = countMatches(titleText, pattern);
+      const inDescription = Math.min(countMatches(descriptionText, pattern), MAX_DESCRIPTION_MATCHES);
+      score += weight * (inTitle * TITLE_MULTIPLIER + inDescription);
+    }
+    if (score > 0) scores[id] = score;
+  }
+  return scores;
+}
+
+/**
+ * Classify a job into a category from its title and description
+ */
+export function classifyJob(title: string, description: string = ''): JobCategoryId {
+  let best: JobCategoryId = 'other';
+  let bestScore = MIN_SCORE - 1;
+  for (const [id, score] of Object.entries(scoreCategories(title, description))) {
+    if (score > bestScore) {
+      best = id as JobCategoryId;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+/**
+ * Get a job's stored category, classifying jobs stored before the classifier existed
+ */
+export function categoryOf(job: { title: string; description: string; category?: JobCategoryId }): JobCategoryId {
+  return job.category ?? classifyJob(job.title, job.description);
+}
+
+/**
+ * Look up a category by ID; unknown IDs (e.g. from an older taxonomy) map to "other"
+ */
+export function getCategory(id: string | undefined): JobCategory {
+  return CATEGORIES_BY_ID.get(id as JobCategoryId) ?? CATEGORIES_BY_ID.get('other')!;
+}
+
+/** Words that say nothing about a job's function */
+const STOPWORDS = new Set([
+  'and', 'or', 'the', 'of', 'for', 'in', 'at', 'to', 'a', 'an', 'with', 'on', 'senior', 'junior', 'lead',
+  'head', 'manager', 'officer', 'assistant', 'associate', 'executive', 'intern', 'trainee', 'graduate',
+  'entry', 'level', 'mid', 'experienced', 'nigeria', 'lagos', 'abuja', 'remote', 'hybrid', 'job', 'jobs',
+  'vacancy', 'urgent', 'needed', 'wanted', 'ii', 'iii', 'i', 'ltd', 'limited', 'plc',
+]);
+
+/** A term must appear in this many posted titles before it's learned */
+const MIN_TERM_SUPPORT = 3;
+
+/** Share of a term's titles that must fall in one category for it to be learned */
+const MIN_TERM_PRECISION = 0.8;
+
+/** Title words and adjacent word pairs, minus stopwords */
+function titleTerms(title: string): Set<string> {
+  const words = title.toLowerCase().replace(/[^a-z0-9+#/.\s-]/g, ' ').split(/\s+/).filter(Boolean);
+  const terms = new Set<string>();
+  words.forEach((word, i) => {
+    if (word.length > 2 && !STOPWORDS.has(word) && !/^\d+$/.test(word)) terms.add(word);
+    const next = words[i + 1];
+    if (next && !STOPWORDS.has(word) && !STOPWORDS.has(next)) terms.add(`${word} ${next}`);
+  });
+  return terms;
+}
+
+/**
+ * Learn extra keyword weights from categories people set. Title terms that are frequent and that nearly
+ * always occur in one category become keywords of that category, weighted by precision and
+ * support. Terms already in the seed taxonomy are left alone.
+ * Run offline (GET /api/categories/train) and commit the result as categoryWeights.json.
+ */
+export function trainCategoryWeights(examples: CategoryExample[]): CategoryWeights {
+  const termCounts = new Map<string, Map<JobCategoryId, number>>();
+  for (const example of examples) {
+    if (example.category === 'other') continue;
+    for (const term of Array.from(titleTerms(example.title))) {
+      const counts = termCounts.get(term) ?? new Map<JobCategoryId, number>();
+      counts.set(example.category, (counts.get(example.category) ?? 0) + 1);
+      termCounts.set(term, counts);
+    }
+  }
+
+  const weights: CategoryWeights = {};
+  for (const [term, counts] of Array.from(termCounts.entries())) {
+    const total = Array.from(counts.values()).reduce((sum, n) => sum + n, 0);
+    if (total < MIN_TERM_SUPPORT) continue;
+    const [category, count] = Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0];
+    const precision = count / total;
+    if (precision < MIN_TERM_PRECISION) continue;
+    if (TAXONOMY.some((c) => term in c.keywords)) continue;
+
+    const weight = Math.min(3, Math.round(precision * Math.log2(1 + count) * 10) / 10);
+    weights[category] = { ...weights[category], [term]: weight };
+  }
+  return weights;
+}
@@ -0,0 +1,77 @@
+/**
+ * Categories set by people, kept as training examples for the category classifier.
+ * Only these are trained on: the classifier's own output can't teach it anything new.
+ */
+
+import { redis } from './redis';
+import type { CategoryExample } from './categories';
+
+/** Hash of labeled examples, keyed by normalized title and company so a repost replaces its label */
+const LABELS_KEY = 'categories:labels';
+
+/** Labels are kept a year (the longest window training reads), refreshed whenever one is added */
+const LABELS_TTL = 60 * 60 * 24 * 365;
+
+/** Most labels kept; the oldest are dropped past this */
+const MAX_LABELS = 5000;
+
+export interface CategoryLabel extends CategoryExample {
+  /** When the category was set (ISO) */
+  labeledAt: string;
+}
+
+function labelField(title: string, company: string): string {
+  const normalize = (text: string) => text.toLowerCase().replace(/\s+/g, ' ').trim();
+  return `${normalize(title)}|${normalize(company)}`;
+}
+
+/**
+ * Record the category a person chose or confirmed for a job (e.g. when posting from JobForm)
+ */
+export async function saveCategoryLabel(
+  job: CategoryExample & { company: string }
+): Promise<void> {
+  const label: CategoryLabel = {
+    title: job.title,
+    description: job.description,
+    category: job.category,
+    labeledAt: new Date().toISOString(),
+  };
+  const pipeline = redis.pipeline();
+  pipeline.hset(LABELS_KEY, { [labelField(job.title, job.company)]: JSON.stringify(label) });
+  pipeline.expire(LABELS_KEY, LABELS_TTL);
+  pipeline.hlen(LABELS_KEY);
+  const [, , count] = await pipeline.exec<[number, number, number]>();
+  if (count > MAX_LABELS) await pruneCategoryLabels(count - MAX_LABELS);
+}
+
+/**
+ * Drop the `excess` oldest labels
+ */
+async function pruneCategoryLabels(excess: number): Promise<void> {
+  const entries = (await redis.hgetall<Record<string, unknown>>(LABELS_KEY)) ?? {};
+  const oldest = Object.entries(entries)
+    .map(([field, value]) => [field, parseLabel(value).labeledAt] as const)
+    .sort(([, a], [, b]) => a.localeCompare(b))
+    .slice(0, excess)
+    .map(([field]) => field);
+  if (oldest.length > 0) {
+    const [first, ...rest] = oldest;
+    await redis.hdel(LABELS_KEY, first, ...rest);
+  }
+}
+
+function parseLabel(value: unknown): CategoryLabel {
+  return (typeof value === 'string' ? JSON.parse(value) : value) as CategoryLabel;
+}
+
+/**
+ * Get the categories people set in the last `days` days
+ */
+export async function getCategoryLabels(days: number): Promise<CategoryLabel[]> {
+  const entries = (await redis.hgetall<Record<string, unknown>>(LABELS_KEY)) ?? {};
+  const since = Date.now() - days * 24 * 60 * 60 * 1000;
+  return Object.values(entries)
+    .map(parseLabel)
+    .filter((label) => new Date(label.labeledAt).getTime() >= since);
+}
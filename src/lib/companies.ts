@@ -0,0 +1,205 @@
+/**
+ * Company profiles scraped from job board company pages (e.g. MyJobMag /jobs-at/)
+ */
+
+import * as cheerio from 'cheerio';
+import type { CheerioAPI } from 'cheerio';
+import type { ScrapedJob } from './scraper';
+import { fetchPage, TimeBudgetExceededError } from './fetcher';
+import { redis } from './redis';
+import { firstText, resolveUrl } from './sources/shared';
+
+const COMPANY_KEY = (id: string) => `company:${id}`;
+
+/** Company pages rarely change - refresh profiles monthly */
+const COMPANY_TTL = 60 * 60 * 24 * 30;
+
+/** Company pages fetched per enrichment run, so enrichment can't eat the scrape budget */
+const MAX_FETCHES_PER_RUN = 5;
+
+/** Longest "About the company" text kept */
+const MAX_DESCRIPTION_LENGTH = 600;
+
+export interface CompanyProfile {
+  /** Derived from the company page URL, e.g. "myjobmag.com/jobs-at/dangote-group" */
+  id: string;
+  name: string;
+  profileUrl: string;
+  logoUrl?: string;
+  industry?: string;
+  size?: string;
+  website?: string;
+  description?: string;
+  fetchedAt: string;
+}
+
+function hostnameOf(url: string): string {
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Read a labeled detail such as "Industry: Banking", whether the value shares the label's
+ * element or sits in the next one (e.g. <dt>Industry</dt><dd>Banking</dd>)
+ */
+function findDetail($: CheerioAPI, label: string): string {
+  const pattern = new RegExp(`^(?:${label})\\s*(?::\\s*(.*))?$`, 'i');
+  let value = '';
+  $('li, p, span, div, td, th, dt, dd, strong, b').each((_, el) => {
+    const text = $(el).text().replace(/\s+/g, ' ').trim();
+    if (text.length > 120) return;
+    const match = text.match(pattern);
+    if (!match) return;
+    value = match[1]?.trim() || $(el).next().text().replace(/\s+/g, ' ').trim();
+    if (value) return false; // break
+  });
+  return value.length < 120 ? value : '';
+}
+
+/**
+ * Get the profile ID for a company page URL
+ */
+export function getCompanyId(profileUrl: string): string {
+  const { hostname, pathname } = new URL(profileUrl);
+  return `${hostname.replace(/^www\./, '')}${pathname.replace(/\/+$/, '')}`;
+}
+
+/**
+ * Parse a company page into a CompanyProfile (no network access)
+ */
+export function parseCompanyPage(html: string, profileUrl: string): CompanyProfile {
+  const $ = cheerio.load(html);
+
+  const name = firstText($, 'h1') || $('title').text().split(/[-|]/)[0].replace(/\bjobs?\s+(?:at|in)\b/i, '').trim();
+
+  // Logo: an image described as the company logo, or one whose alt text is the company name
+  const logo = $('img[src*="logo"], img[alt*="logo" i], img[class*="logo" i]')
+    .filter((_, el) => !/myjobmag|jobberman|site-logo/i.test(`${$(el).attr('src')} ${$(el).attr('class')}`))
+    .first()
+    .attr('src')
+    || $('img').filter((_, el) => !!name && $(el).attr('alt')?.trim().toLowerCase() === name.toLowerCase()).first().attr('src');
+
+  const websiteHref = $('a[href^="http"]')
+    .filter((_, el) => /website|visit/i.test($(el).text()) || /^https?:\/\//.test($(el).text().trim()))
+    .filter((_, el) => hostnameOf($(el).attr('href')!) !== hostnameOf(profileUrl))
+    .first()
+    .attr('href');
+
+  const about = $('p')
+    .map((_, el) => $(el).text().replace(/\s+/g, ' ').trim())
+    .get()
+    .filter((text) => text.length > 60)
+    .slice(0, 2)
+    .join('\n\n');
+
+  const profile: CompanyProfile = {
+    id: getCompanyId(profileUrl),
+    name,
+    profileUrl,
+    fetchedAt: new Date().toISOString(),
+  };
+  if (logo) profile.logoUrl = resolveUrl(logo, profileUrl);
+  const industry = findDetail($, 'Industry|Sector');
+  if (industry) profile.industry = industry;
+  const size = findDetail($, '(?:Company\\s+)?Size|(?:No\\.?|Number)\\s+of\\s+Employees|Employees');
+  if (size) profile.size = size;
+  const website = websiteHref || findDetail($, 'Website');
+  if (website) profile.website = website;
+  if (about) profile.description = about.substring(0, MAX_DESCRIPTION_LENGTH);
+  return profile;
+}
+
+/**
+ * Get a cached company profile by ID
+ */
+export async function getCompanyProfile(id: string): Promise<CompanyProfile | null> {
+  const data = await redis.get<CompanyProfile | string>(COMPANY_KEY(id));
+  if (!data) return null;
+  return typeof data === 'string' ? JSON.parse(data) : data;
+}
+
+/**
+ * Get the cached profile of a job's company, if it has one
+ */
+export async function getJobCompanyProfile(job: Pick<ScrapedJob, 'companyUrl'>): Promise<CompanyProfile | null> {
+  if (!job.companyUrl) return null;
+  try {
+    return await getCompanyProfile(getCompanyId(job.companyUrl));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Get the cached profiles of several jobs' companies in one round-trip (null where there is none)
+ */
+export async function getJobCompanyProfiles(jobs: Pick<ScrapedJob, 'companyUrl'>[]): Promise<(CompanyProfile | null)[]> {
+  const keys = jobs.map((job) => (job.companyUrl ? COMPANY_KEY(getCompanyId(job.companyUrl)) : null));
+  const lookups = [...new Set(keys.filter((key): key is string => key !== null))];
+  if (lookups.length === 0) return jobs.map(() => null);
+
+  try {
+    const values = await redis.mget<(CompanyProfile | string | null)[]>(...lookups);
+    const profiles = new Map(
+      lookups.map((key, i) => {
+        const value = values[i];
+        return [key, !value ? null : typeof value === 'string' ? (JSON.parse(value) as CompanyProfile) : value];
+      })
+    );
+    return keys.map((key) => (key ? profiles.get(key) ?? null : null));
+  } catch {
+    return jobs.map(() => null);
+  }
+}
+
+/**
+ * Fetch and cache profiles for the companies of the given jobs.
+ * Already cached companies are skipped; at most MAX_FETCHES_PER_RUN pages are fetched, in job
+ * order, and fetching stops at the deadline, so enrichment stays within the scrape run's time
+ * budget. Companies left over are picked up when later runs pass their jobs again.
+ * @param deadline Time (ms) by which enrichment must stop
+ * @returns Number of profiles fetched
+ */
+export async function enrichCompanyProfiles(jobs: ScrapedJob[], deadline: number = Infinity): Promise<number> {
+  const profileUrls = Array.from(new Set(jobs.map((job) => job.companyUrl).filter((url): url is string => !!url)));
+  if (profileUrls.length === 0) return 0;
+
+  let cached: number[];
+  try {
+    const pipeline = redis.pipeline();
+    for (const profileUrl of profileUrls) pipeline.exists(COMPANY_KEY(getCompanyId(profileUrl)));
+    cached = await pipeline.exec<number[]>();
+  } catch (error) {
+    console.error('Error checking cached company profiles:', error);
+    return 0;
+  }
+
+  const missing = profileUrls.filter((_, i) => cached[i] === 0).slice(0, MAX_FETCHES_PER_RUN);
+  let fetched = 0;
+
+  for (const profileUrl of missing) {
+    if (Date.now() >= deadline) {
+      console.log('Scrape time budget used up - leaving company profiles for a later run');
+      break;
+    }
+    try {
+      const html = await fetchPage(profileUrl, { deadline });
+      const profile = parseCompanyPage(html, profileUrl);
+      await redis.set(COMPANY_KEY(profile.id), JSON.stringify(profile), { ex: COMPANY_TTL });
+      fetched++;
+    } catch (error) {
+      if (error instanceof TimeBudgetExceededError) {
+        console.log('Scrape time budget used up - leaving company profiles for a later run');
+        break;
+      }
+      // A missing profile only means posts go out without company details
+      console.error(`Error enriching company ${profileUrl}:`, error);
+    }
+  }
+
+  if (fetched > 0) console.log(`Enriched ${fetched} company profile(s)`);
+  return fetched;
+}
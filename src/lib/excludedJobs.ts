@@ -1,3 +1,7 @@
+import { Salary, toMonthlyAmount } from './utils';
+import { getLocationStates, NormalizedLocation, normalizeLocations, resolveStateName } from './locations';
+import type { ScrapedJob } from './scraper';
+
 /**
  * Job titles containing these keywords (case-insensitive) are excluded from posting.
  * Add keywords here to prevent certain jobs from being posted to Twitter/Telegram.
@@ -17,3 +21,59 @@ export function isJobExcluded(title: string): boolean {
     (keyword) => lower.includes(keyword.toLowerCase())
   );
 }
+
+/**
+ * Minimum pay for auto-posting, as a monthly amount (AUTO_POST_MIN_MONTHLY_SALARY, in
+ * AUTO_POST_MIN_SALARY_CURRENCY, default NGN). Returns null when no minimum is configured.
+ */
+export function getMinimumSalary(): { amount: number; currency: string } | null {
+  const amount = Number(process.env.AUTO_POST_MIN_MONTHLY_SALARY);
+  if (!amount || amount <= 0) return null;
+  const currency = (process.env.AUTO_POST_MIN_SALARY_CURRENCY || 'NGN').toUpperCase();
+  return { amount, currency };
+}
+
+/**
+ * Check a job's pay against the configured minimum.
+ * Jobs that don't state pay, or state it in another currency, are allowed through.
+ */
+export function meetsMinimumSalary(salary: Salary | undefined): boolean {
+  const minimum = getMinimumSalary();
+  if (!minimum || !salary || salary.currency !== minimum.currency) return true;
+  return toMonthlyAmount(salary) >= minimum.amount;
+}
+
+/**
+ * States auto-posting is limited to (AUTO_POST_LOCATIONS, comma-separated state names or
+ * aliases such as "Lagos,Abuja,Remote"). Returns null when every location is allowed.
+ */
+export function getAllowedLocations(): string[] | null {
+  const states = (process.env.AUTO_POST_LOCATIONS ?? '')
+    .split(',')
+    .map((s) => resolveStateName(s))
+    .filter((s): s is string => !!s);
+  return states.length > 0 ? states : null;
+}
+
+/**
+ * Check a job's normalized locations against the allowed states.
+ * Multi-location jobs pass if any location is allowed; jobs without a known state
+ * (e.g. just "Nigeria") are allowed through.
+ */
+export function isLocationAllowed(locations: NormalizedLocation[]): boolean {
+  const allowed = getAllowedLocations();
+  if (!allowed) return true;
+  const states = getLocationStates(locations);
+  if (states.length === 0) return true;
+  return states.some((state) => allowed.includes(state));
+}
+
+/**
+ * Why a queued job can't be auto-posted under the current rules, or null if it can
+ */
+export function getPostingSkipReason(job: ScrapedJob): string | null {
+  if (isJobExcluded(job.title)) return 'Job type is excluded from posting';
+  if (!meetsMinimumSalary(job.salary)) return 'Pay is below the posting minimum';
+  if (!isLocationAllowed(job.locations ?? normalizeLocations(job.location))) return 'Location is outside the posting area';
+  return null;
+}
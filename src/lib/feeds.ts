@@ -0,0 +1,132 @@
+/**
+ * RSS/Atom feed ingestion - turns job feed entries into ScrapedJobs for the queue
+ */
+
+import * as cheerio from 'cheerio';
+import type { CheerioAPI } from 'cheerio';
+import type { ScrapedJob } from './scraper';
+import { fetchPage } from './fetcher';
+import { htmlToText } from './sources/jsonLd';
+import { buildScrapedJob, findDeadline, findSalaryText } from './sources/shared';
+import { formatSalary, parsePastedJob } from './utils';
+
+const FEED_ACCEPT = 'application/rss+xml, application/atom+xml, application/xml;q=0.9, text/xml;q=0.8';
+
+/** A single RSS item or Atom entry */
+interface FeedEntry {
+  title: string;
+  link: string;
+  /** Entry body as HTML or plain text */
+  content: string;
+  published: string;
+}
+
+/** Per-feed counts for an ingestion run */
+export interface FeedIngestStats {
+  url: string;
+  found: number;
+  ingested: number;
+  error?: string;
+}
+
+export interface FeedIngestResult {
+  jobs: ScrapedJob[];
+  feeds: FeedIngestStats[];
+}
+
+/**
+ * Get the feed URLs to ingest (JOB_FEED_URLS, comma-separated)
+ */
+export function getFeedUrls(): string[] {
+  return (process.env.JOB_FEED_URLS ?? '').split(',').map((url) => url.trim()).filter(Boolean);
+}
+
+/**
+ * Read entries from an RSS 2.0 or Atom document
+ */
+function parseFeedEntries($: CheerioAPI): FeedEntry[] {
+  const rssItems = $('item').map((_, el) => {
+    const item = $(el);
+    const childText = (selector: string) => item.children(selector).first().text().trim();
+    return {
+      title: childText('title'),
+      link: childText('link') || childText('guid'),
+      content: childText('content\\:encoded') || childText('description'),
+      published: childText('pubDate') || childText('dc\\:date'),
+    };
+  }).get();
+  if (rssItems.length > 0) return rssItems;
+
+  return $('entry').map((_, el) => {
+    const entry = $(el);
+    const childText = (selector: string) => entry.children(selector).first().text().trim();
+    const links = entry.children('link');
+    const alternate = links.filter((_, link) => ($(link).attr('rel') ?? 'alternate') === 'alternate').first();
+    return {
+      title: childText('title'),
+      link: (alternate.length ? alternate : links.first()).attr('href') ?? '',
+      content: childText('content') || childText('summary'),
+      published: childText('published') || childText('updated'),
+    };
+  }).get();
+}
+
+/**
+ * Map a feed entry into a ScrapedJob, running parsePastedJob over the entry body.
+ * Feed titles like "Job Title at Company" take precedence over what the body parser finds.
+ */
+function entryToJob(entry: FeedEntry, source: string): ScrapedJob | null {
+  if (!entry.link) return null;
+
+  const body = htmlToText(entry.content);
+  const parsed = parsePastedJob(body);
+  const titleMatch = entry.title.match(/^(.+?)\s+at\s+(.+)$/i);
+  const published = new Date(entry.published);
+
+  return buildScrapedJob(source, entry.link, {}, {
+    title: titleMatch?.[1]?.trim() || entry.title || parsed.title,
+    company: titleMatch?.[2]?.trim() || parsed.company,
+    location: parsed.location === 'Not specified' ? '' : parsed.location,
+    jobType: parsed.jobType,
+    description: parsed.description || body,
+    applyUrl: parsed.applyLink,
+    datePosted: isNaN(published.getTime()) ? '' : published.toISOString(),
+    deadline: findDeadline(body),
+    salaryText: findSalaryText(body) || (parsed.salary ? formatSalary(parsed.salary) : ''),
+  });
+}
+
+/**
+ * Fetch a single feed and map its entries into jobs
+ */
+async function ingestFeed(url: string, limit: number, stats: FeedIngestStats): Promise<ScrapedJob[]> {
+  try {
+    const xml = await fetchPage(url, { accept: FEED_ACCEPT });
+    const entries = parseFeedEntries(cheerio.load(xml, { xml: true })).slice(0, limit);
+    stats.found = entries.length;
+
+    const source = `feed:${new URL(url).hostname.replace(/^www\./, '')}`;
+    const jobs = entries
+      .map((entry) => entryToJob(entry, source))
+      .filter((job): job is ScrapedJob => job !== null);
+    stats.ingested = jobs.length;
+    console.log(`Ingested ${jobs.length}/${entries.length} entries from feed ${url}`);
+    return jobs;
+  } catch (error) {
+    // A failing feed shouldn't stop the others
+    console.error(`Error ingesting feed ${url}:`, error);
+    stats.error = error instanceof Error ? error.message : 'Unknown error';
+    return [];
+  }
+}
+
+/**
+ * Ingest jobs from RSS/Atom feeds
+ * @param urls Feed URLs (defaults to JOB_FEED_URLS)
+ * @param limit Max number of entries to read per feed
+ */
+export async function ingestFeeds(urls: string[] = getFeedUrls(), limit: number = 50): Promise<FeedIngestResult> {
+  const feeds: FeedIngestStats[] = urls.map((url) => ({ url, found: 0, ingested: 0 }));
+  const jobsByFeed = await Promise.all(urls.map((url, i) => ingestFeed(url, limit, feeds[i])));
+  return { jobs: jobsByFeed.flat(), feeds };
+}
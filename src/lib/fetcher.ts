@@ -0,0 +1,311 @@
+/**
+ * HTTP fetching for the job scrapers, with robots.txt checks, per-host rate limiting, retries
+ * and conditional requests for pages that were fetched before
+ */
+
+import crypto from 'crypto';
+import { redis } from './redis';
+import { getRobotsRules, isPathAllowed, RobotsDisallowedError } from './robots';
+import { assertPublicUrl, UnsafeUrlError } from './publicUrl';
+
+export const USER_AGENT = 'CareerExplorerBot/1.0 (Job Aggregator; contact@example.com)';
+
+/** Default requests per second allowed to a single host */
+const DEFAULT_HOST_RATE = 1;
+
+/** Short bursts allowed per host before rate limiting kicks in */
+const HOST_BURST = 2;
+
+/** Attempts per request, including the first */
+const MAX_ATTEMPTS = 3;
+
+/** Base delay for exponential backoff */
+const BACKOFF_BASE_MS = 1000;
+
+/** Never wait longer than this between retries, even if Retry-After asks for more */
+const MAX_RETRY_WAIT_MS = 15000;
+
+/** Longest a single request may take, including reading the body */
+const REQUEST_TIMEOUT_MS = 15000;
+
+/** Redirects followed for publicOnly fetches, which check every hop */
+const MAX_REDIRECTS = 5;
+
+/** Token bucket tracking how many requests a host can take right now */
+interface HostBucket {
+  tokens: number;
+  updatedAt: number;
+  /** Set from Retry-After; no requests go to the host before this time */
+  blockedUntil: number;
+  /** Crawl-delay from robots.txt, in seconds */
+  crawlDelay?: number;
+}
+
+const hostBuckets = new Map<string, HostBucket>();
+
+/** How long validators for a fetched page are kept (matches the job data TTL) */
+const PAGE_CACHE_TTL = 60 * 60 * 24 * 7;
+
+const PAGE_CACHE_KEY = (url: string) => `page:cache:${crypto.createHash('md5').update(url).digest('hex')}`;
+
+/** What we remember about a page to tell whether it changed since the last fetch */
+interface PageCacheEntry {
+  etag?: string;
+  lastModified?: string;
+  /** SHA-1 of the page body */
+  hash: string;
+}
+
+export interface FetchPageOptions {
+  /** Accept header to send instead of the HTML default, e.g. for feeds */
+  accept?: string;
+  /**
+   * Send a conditional request using the validators from the last fetch, and throw
+   * PageUnchangedError if the server answers 304 or the body hash is the same
+   */
+  skipUnchanged?: boolean;
+  /** Time (ms) by which the fetch must be done, e.g. the end of a scrape run's time budget */
+  deadline?: number;
+  /**
+   * Only fetch from public hosts, checking the URL and every redirect with assertPublicUrl
+   * (throws UnsafeUrlError). For URLs sent in by callers, e.g. imports.
+   */
+  publicOnly?: boolean;
+}
+
+/**
+ * Thrown by fetchPage (with skipUnchanged) when a page hasn't changed since the last fetch
+ */
+export class PageUnchangedError extends Error {
+  constructor(public url: string) {
+    super(`Page unchanged since last fetch: ${url}`);
+    this.name = 'PageUnchangedError';
+  }
+}
+
+/**
+ * Thrown by fetchPage when its deadline passes before the page could be fetched
+ */
+export class TimeBudgetExceededError extends Error {
+  constructor(public url: string) {
+    super(`Time budget ran out before ${url} was fetched`);
+    this.name = 'TimeBudgetExceededError';
+  }
+}
+
+/**
+ * Abort signal for one request: fires after capMs, or at the deadline if that comes first
+ */
+function requestSignal(deadline: number, capMs: number): AbortSignal {
+  return AbortSignal.timeout(Math.max(0, Math.min(deadline - Date.now(), capMs)));
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Get the per-host request rate (SCRAPE_HOST_RATE requests/second, default 1)
+ */
+function getHostRate(): number {
+  const value = parseFloat(process.env.SCRAPE_HOST_RATE ?? '');
+  return value > 0 ? value : DEFAULT_HOST_RATE;
+}
+
+function getBucket(host: string): HostBucket {
+  let bucket = hostBuckets.get(host);
+  if (!bucket) {
+    bucket = { tokens: HOST_BURST, updatedAt: Date.now(), blockedUntil: 0 };
+    hostBuckets.set(host, bucket);
+  }
+  return bucket;
+}
+
+/**
+ * Wait until the host's token bucket allows another request.
+ * Returns false instead of waiting past the deadline.
+ */
+async function acquireHostToken(host: string, deadline: number): Promise<boolean> {
+  const bucket = getBucket(host);
+  // Crawl-delay caps the rate and leaves no room for bursts
+  const rate = bucket.crawlDelay ? Math.min(getHostRate(), 1 / bucket.crawlDelay) : getHostRate();
+  const burst = bucket.crawlDelay ? 1 : HOST_BURST;
+
+  for (;;) {
+    const now = Date.now();
+    if (bucket.blockedUntil > now) {
+      if (bucket.blockedUntil >= deadline) return false;
+      await sleep(bucket.blockedUntil - now);
+      continue;
+    }
+
+    bucket.tokens = Math.min(burst, bucket.tokens + ((now - bucket.updatedAt) / 1000) * rate);
+    bucket.updatedAt = now;
+    if (bucket.tokens >= 1) {
+      bucket.tokens -= 1;
+      return true;
+    }
+    const waitMs = ((1 - bucket.tokens) / rate) * 1000;
+    if (now + waitMs >= deadline) return false;
+    await sleep(waitMs);
+  }
+}
+
+/**
+ * fetch() that follows redirects itself, refusing any hop to a non-public host
+ */
+async function fetchPublic(url: string, init: RequestInit): Promise<Response> {
+  let current = url;
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    await assertPublicUrl(current);
+    const response = await fetch(current, { ...init, redirect: 'manual' });
+    const location = response.headers.get('location');
+    if (response.status < 300 || response.status >= 400 || !location) return response;
+    current = new URL(location, current).toString();
+  }
+  throw new UnsafeUrlError(url, 'too many redirects');
+}
+
+/**
+ * Parse a Retry-After header (seconds or HTTP date) into milliseconds
+ */
+function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+async function getPageCache(url: string): Promise<PageCacheEntry | null> {
+  try {
+    return await redis.get<PageCacheEntry>(PAGE_CACHE_KEY(url));
+  } catch {
+    // Redis not configured or error - fetch unconditionally
+    return null;
+  }
+}
+
+async function savePageCache(url: string, entry: PageCacheEntry): Promise<void> {
+  try {
+    await redis.set(PAGE_CACHE_KEY(url), entry, { ex: PAGE_CACHE_TTL });
+  } catch {
+    // Ignore cache write errors
+  }
+}
+
+/**
+ * Drop the validators saved for a page, so its next fetch is unconditional
+ */
+export async function forgetPage(url: string): Promise<void> {
+  try {
+    await redis.del(PAGE_CACHE_KEY(url));
+  } catch {
+    // Redis not configured or error - nothing was cached
+  }
+}
+
+/**
+ * Compare a fetched body against the cached hash and store the new validators
+ * @returns true if the body is the same as last time
+ */
+async function isSameAsCached(url: string, response: Response, html: string, cached: PageCacheEntry | null): Promise<boolean> {
+  const hash = crypto.createHash('sha1').update(html).digest('hex');
+  await savePageCache(url, {
+    etag: response.headers.get('etag') ?? undefined,
+    lastModified: response.headers.get('last-modified') ?? undefined,
+    hash,
+  });
+  return cached?.hash === hash;
+}
+
+/**
+ * Fetch HTML from a URL with proper headers.
+ * Throws RobotsDisallowedError when robots.txt disallows the URL for USER_AGENT.
+ * Requests are rate limited per host (honoring Crawl-delay); 429 and 5xx responses and network
+ * errors are retried with exponential backoff, honoring Retry-After when the server sends it.
+ * With skipUnchanged, throws PageUnchangedError when the page is the same as on the last fetch.
+ * Each request times out after REQUEST_TIMEOUT_MS or at the deadline; TimeBudgetExceededError is
+ * thrown when the deadline passes, and retries that would end after it are not attempted.
+ */
+export async function fetchPage(url: string, options: FetchPageOptions = {}): Promise<string> {
+  const { host, pathname, search } = new URL(url);
+  const deadline = options.deadline ?? Infinity;
+  if (Date.now() >= deadline) throw new TimeBudgetExceededError(url);
+  if (options.publicOnly) await assertPublicUrl(url);
+
+  const robots = await getRobotsRules(url, USER_AGENT, deadline);
+  if (!isPathAllowed(robots, `${pathname}${search}`)) {
+    throw new RobotsDisallowedError(url);
+  }
+  if (robots.crawlDelay) {
+    getBucket(host).crawlDelay = robots.crawlDelay;
+  }
+
+  const headers: Record<string, string> = {
+    'User-Agent': USER_AGENT,
+    'Accept': options.accept ?? 'text/html,application/xhtml+xml',
+    'Accept-Language': 'en-US,en;q=0.9',
+  };
+  const cached = options.skipUnchanged ? await getPageCache(url) : null;
+  if (cached?.etag) headers['If-None-Match'] = cached.etag;
+  if (cached?.lastModified) headers['If-Modified-Since'] = cached.lastModified;
+
+  let lastError: Error | null = null;
+
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    if (!(await acquireHostToken(host, deadline))) throw new TimeBudgetExceededError(url);
+
+    let retryAfterMs: number | null = null;
+    let response: Response | null = null;
+    let html: string | null = null;
+    try {
+      const init = { headers, signal: requestSignal(deadline, REQUEST_TIMEOUT_MS) };
+      response = await (options.publicOnly ? fetchPublic(url, init) : fetch(url, init));
+      if (response.ok) html = await response.text();
+    } catch (error) {
+      if (error instanceof UnsafeUrlError) throw error;
+      if (Date.now() >= deadline) throw new TimeBudgetExceededError(url);
+      // Network error or request timeout - retry
+      lastError = error instanceof Error ? error : new Error(String(error));
+      response = null;
+    }
+
+    if (response) {
+      if (response.status === 304 && cached) {
+        throw new PageUnchangedError(url);
+      }
+
+      if (html !== null) {
+        if (options.skipUnchanged && (await isSameAsCached(url, response, html, cached))) {
+          throw new PageUnchangedError(url);
+        }
+        return html;
+      }
+
+      lastError = new Error(`Failed to fetch ${url}: ${response.status}`);
+      if (!isRetryableStatus(response.status)) {
+        throw lastError;
+      }
+      retryAfterMs = parseRetryAfter(response.headers.get('retry-after'));
+    }
+
+    if (attempt === MAX_ATTEMPTS) break;
+
+    const backoff = BACKOFF_BASE_MS * 2 ** (attempt - 1) + Math.random() * 250;
+    const waitMs = Math.min(MAX_RETRY_WAIT_MS, retryAfterMs ?? backoff);
+    // A retry that can't finish before the deadline isn't worth waiting for
+    if (Date.now() + waitMs >= deadline) break;
+    if (retryAfterMs !== null) {
+      // The whole host asked us to back off, not just this request
+      const bucket = getBucket(host);
+      bucket.blockedUntil = Math.max(bucket.blockedUntil, Date.now() + waitMs);
+    }
+    console.log(`Retrying ${url} in ${Math.round(waitMs)}ms (attempt ${attempt + 1}/${MAX_ATTEMPTS})`);
+    await sleep(waitMs);
+  }
+
+  throw lastError ?? new Error(`Failed to fetch ${url}`);
+}
@@ -0,0 +1,101 @@
+/**
+ * Content fingerprints for spotting the same job under different URLs
+ * (reposts, or one opening listed on several boards)
+ */
+
+import crypto from 'crypto';
+import type { ScrapedJob } from './scraper';
+import { normalizeLocations } from './locations';
+
+/** Words per description shingle */
+const SHINGLE_SIZE = 3;
+
+/** Shingle hashes kept per description (bottom-k sketch) */
+const SKETCH_SIZE = 64;
+
+/** Minimum estimated description similarity for two jobs with the same key to count as duplicates */
+export const DUPLICATE_SIMILARITY = 0.6;
+
+/** Company suffixes that vary between boards for the same employer */
+const COMPANY_SUFFIXES = /\b(?:limited|ltd|plc|inc|llc|nigeria|nig|group|company|co)\b/g;
+
+/** Title noise added by some boards, e.g. "Urgent Recruitment: Accountant" */
+const TITLE_NOISE = /\b(?:urgent(?:ly)?|recruitment|vacancy|vacancies|needed|wanted|hiring|job|opening)\b/g;
+
+export interface JobFingerprint {
+  /** Hash of the normalized title, company and state - jobs are only compared within a key */
+  key: string;
+  /** Bottom-k sketch of the description's word shingles */
+  sketch: number[];
+}
+
+function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function normalizeTitle(title: string): string {
+  return normalize(title).replace(TITLE_NOISE, ' ').replace(/\s+/g, ' ').trim();
+}
+
+function normalizeCompany(company: string): string {
+  return normalize(company).replace(COMPANY_SUFFIXES, ' ').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * The state of the job's first gazetteer location - boards disagree on how much of "Ikeja, Lagos,
+ * Nigeria" they show, and on listing "Remote" alongside. Jobs with no state fall back to
+ * "remote" or their country.
+ */
+function normalizePlace(job: Pick<ScrapedJob, 'location' | 'locations'>): string {
+  const [first] = job.locations ?? normalizeLocations(job.location);
+  if (!first) return '';
+  return normalize(first.state ?? (first.remote ? 'remote' : first.country));
+}
+
+function hash32(text: string): number {
+  return crypto.createHash('md5').update(text).digest().readUInt32BE(0);
+}
+
+/**
+ * Hash a description's word shingles and keep the smallest SKETCH_SIZE hashes
+ */
+function sketchDescription(description: string): number[] {
+  const words = normalize(description).split(' ').filter(Boolean);
+  const hashes = new Set<number>();
+  for (let i = 0; i + SHINGLE_SIZE <= words.length; i++) {
+    hashes.add(hash32(words.slice(i, i + SHINGLE_SIZE).join(' ')));
+  }
+  return Array.from(hashes).sort((a, b) => a - b).slice(0, SKETCH_SIZE);
+}
+
+/**
+ * Build a job's content fingerprint
+ */
+export function fingerprintJob(
+  job: Pick<ScrapedJob, 'title' | 'company' | 'location' | 'locations' | 'description'>
+): JobFingerprint {
+  const key = crypto
+    .createHash('md5')
+    .update([normalizeTitle(job.title), normalizeCompany(job.company), normalizePlace(job)].join('|'))
+    .digest('hex')
+    .substring(0, 16);
+  return { key, sketch: sketchDescription(job.description) };
+}
+
+/**
+ * Estimate the Jaccard similarity of two descriptions from their sketches.
+ * Two empty descriptions count as identical, since the key already matched.
+ */
+export function sketchSimilarity(a: number[], b: number[]): number {
+  if (a.length === 0 && b.length === 0) return 1;
+  const inA = new Set(a);
+  const inB = new Set(b);
+  const union = Array.from(new Set([...a, ...b])).sort((x, y) => x - y).slice(0, SKETCH_SIZE);
+  const shared = union.filter((h) => inA.has(h) && inB.has(h)).length;
+  return shared / union.length;
+}
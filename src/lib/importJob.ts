@@ -0,0 +1,68 @@
+/**
+ * Import a single job by URL, e.g. a listing someone sent us
+ */
+
+import type { ScrapedJob } from './scraper';
+import { fetchPage } from './fetcher';
+import { findJobSourceForUrl } from './sources';
+import { parseGenericJobPage } from './sources/generic';
+import { generateJobId } from './sources/shared';
+import { addJobsToQueue, getJob, getJobQueueStatus, holdJobsForReview, JobQueueStatus } from './jobQueue';
+import { isJobExcluded } from './excludedJobs';
+import { assessScamRisk, needsReview } from './scamRisk';
+
+/** What happened when an imported job was offered to the queue */
+export type EnqueueOutcome = 'queued' | 'held' | 'duplicate' | 'excluded';
+
+export interface ImportResult {
+  job: ScrapedJob;
+  /** Where the job already stood in the queue before this import, if anywhere */
+  existing: JobQueueStatus | null;
+  /** Set when the import was asked to enqueue a job that wasn't already known */
+  enqueued?: EnqueueOutcome;
+}
+
+/** Thrown when a page has no recognizable job on it */
+export class JobNotFoundError extends Error {
+  constructor(public url: string) {
+    super(`No job found at ${url}`);
+    this.name = 'JobNotFoundError';
+  }
+}
+
+/**
+ * Fetch a job page and parse it with the matching source adapter,
+ * falling back to generic JSON-LD/meta extraction for other sites.
+ * Only public hosts are fetched; others throw UnsafeUrlError.
+ */
+async function scrapeJobUrl(url: string): Promise<ScrapedJob> {
+  const html = await fetchPage(url, { publicOnly: true });
+  const source = findJobSourceForUrl(url);
+  const job = source?.parseJobPage(html, url) ?? parseGenericJobPage(html, url);
+  if (!job) throw new JobNotFoundError(url);
+  return { ...job, scamRisk: assessScamRisk(job) };
+}
+
+/**
+ * Import a job by URL. Jobs already in the queue (or posted) are returned from storage
+ * without fetching; otherwise the page is scraped and, if `enqueue` is set, offered to
+ * the queue through the same exclusion, scam and duplicate checks as scraped jobs.
+ */
+export async function importJobFromUrl(url: string, enqueue: boolean = false): Promise<ImportResult> {
+  const existing = await getJobQueueStatus(generateJobId(url));
+  if (existing) {
+    const stored = await getJob(generateJobId(url));
+    return { job: stored ?? (await scrapeJobUrl(url)), existing };
+  }
+
+  const job = await scrapeJobUrl(url);
+  if (!enqueue) return { job, existing };
+
+  if (isJobExcluded(job.title)) return { job, existing, enqueued: 'excluded' };
+  if (needsReview(job, job.scamRisk!)) {
+    await holdJobsForReview([job]);
+    return { job, existing, enqueued: 'held' };
+  }
+  const addedIds = await addJobsToQueue([job]);
+  return { job, existing, enqueued: addedIds.includes(job.id) ? 'queued' : 'duplicate' };
+}
@@ -1,25 +1,217 @@
-import { Redis } from '@upstash/redis';
+import { redis } from './redis';
 import { ScrapedJob } from './scraper';
+import { isClosingSoon, isDeadlinePassed } from './utils';
+import { categoryOf, JobCategoryId } from './categories';
+import { qualificationsOf, Seniority } from './qualifications';
+import { DUPLICATE_SIMILARITY, fingerprintJob, JobFingerprint, sketchSimilarity } from './fingerprint';
+import { addDays, getTimezone, localDateKey } from './timezone';
 
-// Initialize Redis client - will use UPSTASH_REDIS_REST_URL and UPSTASH_REDIS_REST_TOKEN env vars
-const redis = new Redis({
-  url: process.env.UPSTASH_REDIS_REST_URL!,
-  token: process.env.UPSTASH_REDIS_REST_TOKEN!,
-});
+/** Commands queued to run in one round-trip */
+type Pipeline = ReturnType<typeof redis.pipeline>;
 
 // Key prefixes
 const KEYS = {
   POSTED_ALL: 'jobs:posted:all', // Set of all job IDs ever posted
-  TODAY_PENDING: (date: string) => `jobs:today:pending:${date}`,
+  QUEUE: (state: QueueState) => `jobs:queue:${state}`, // Sorted set of job IDs in a state, scored by when they entered it (ms)
+  QUEUE_REASONS: 'jobs:queue:reasons', // Hash of skipped or expired job ID -> why
+  BOOSTS: 'jobs:queue:boosts', // Hash of queued job ID -> manual ranking boost (points)
+  LEGACY_PENDING: (date: string) => `jobs:today:pending:${date}`, // Date-keyed pending sets used before the persistent queue
   JOB_DATA: (id: string) => `job:${id}`,
-  HISTORY: (date: string) => `history:${date}`,
+  HISTORY: (date: string) => `history:${date}`, // Hash of job ID posted on a local day -> when
+  HISTORY_TIMEZONE: 'history:timezone', // Timezone the history and duplicates days were keyed in (UTC when unset)
+  FINGERPRINT: (key: string) => `jobs:fingerprint:${key}`, // Hash of job ID -> FingerprintEntry
+  DUPLICATES: (date: string) => `jobs:duplicates:${date}`, // Hash of suppressed job ID -> DuplicateMatch
+  REVIEW: 'jobs:review', // Hash of job ID held for scam review -> time it was held
+  REJECTED: 'jobs:rejected', // Set of job IDs a reviewer rejected
 };
 
 /**
- * Get today's date in YYYY-MM-DD format
+ * Queue states: queued jobs wait (across days) until they are posted, skipped by the
+ * auto-poster or a person, or expire at their age limit or application deadline
+ */
+export type QueueState = 'queued' | 'posted' | 'skipped' | 'expired';
+
+export const QUEUE_STATES: QueueState[] = ['queued', 'posted', 'skipped', 'expired'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Posted, skipped and expired jobs stay listed by state for this long */
+const FINISHED_RETENTION_DAYS = 30;
+
+/** Largest manual boost (either way) a queued job can be given */
+export const MAX_BOOST = 100;
+
+/** History and duplicate days are kept this long */
+const HISTORY_TTL = 60 * 60 * 24 * 30;
+
+/** Default days a job may wait in the queue */
+const DEFAULT_MAX_QUEUE_DAYS = 7;
+
+/** Fingerprints outlive job data so reposts are caught weeks later */
+const FINGERPRINT_TTL = 60 * 60 * 24 * 90;
+
+/** A queued or posted job's fingerprint, with enough detail to show what a duplicate matched */
+interface FingerprintEntry {
+  sketch: number[];
+  title: string;
+  company: string;
+  source: string;
+}
+
+/** A job left out of the queue because it matched an earlier job */
+export interface DuplicateMatch {
+  id: string;
+  title: string;
+  company: string;
+  source: string;
+  sourceUrl?: string;
+  matchedId: string;
+  matchedTitle: string;
+  matchedCompany: string;
+  matchedSource: string;
+  /** Estimated description similarity (0-1) */
+  similarity: number;
+  detectedAt: string;
+}
+
+/** A job listed by state, with when it entered that state */
+export type ListedJob = ScrapedJob & {
+  stateAt: string;
+  /** Why a job was skipped or expired */
+  reason?: string;
+  /** When a queued job reaches its age limit */
+  expiresAt?: string;
+  /** Ranking points added to a queued job on the dashboard */
+  boost?: number;
+};
+
+/**
+ * Get today's date in the app timezone, in YYYY-MM-DD format
  */
 function getTodayDate(): string {
-  return new Date().toISOString().split('T')[0];
+  return localDateKey();
+}
+
+/** The running or finished history timezone migration, shared by every caller on this instance */
+let historyTimezoneMigration: Promise<void> | null = null;
+
+/**
+ * Queue moves of a day's entries to the day their time falls on in the current timezone
+ * @returns Number of entries moved
+ */
+function rebucketDay(
+  pipeline: Pipeline,
+  keyOf: (date: string) => string,
+  date: string,
+  entries: Record<string, unknown>,
+  timeOf: (value: unknown) => string
+): number {
+  let moved = 0;
+  for (const [id, value] of Object.entries(entries)) {
+    const time = Date.parse(timeOf(value));
+    if (isNaN(time)) continue;
+    const target = localDateKey(time);
+    if (target === date) continue;
+
+    pipeline.hset(keyOf(target), { [id]: typeof value === 'string' ? value : JSON.stringify(value) });
+    pipeline.expire(keyOf(target), HISTORY_TTL);
+    pipeline.hdel(keyOf(date), id);
+    moved++;
+  }
+  return moved;
+}
+
+async function runHistoryTimezoneMigration(): Promise<void> {
+  const timeZone = getTimezone();
+  const previous = (await redis.get<string>(KEYS.HISTORY_TIMEZONE)) ?? 'UTC';
+  if (previous === timeZone) return;
+
+  const today = localDateKey(new Date(), previous);
+  const dates: string[] = [];
+  for (let daysAgo = -1; daysAgo <= HISTORY_TTL / (24 * 60 * 60) + 1; daysAgo++) {
+    dates.push(addDays(today, -daysAgo));
+  }
+
+  // Read every day's history and duplicates at once, then write all the moves at once
+  const reads = redis.pipeline();
+  for (const date of dates) {
+    reads.hgetall(KEYS.HISTORY(date));
+    reads.hgetall(KEYS.DUPLICATES(date));
+  }
+  const days = await reads.exec<(Record<string, unknown> | null)[]>();
+
+  const writes = redis.pipeline();
+  let moved = 0;
+  dates.forEach((date, i) => {
+    moved += rebucketDay(writes, KEYS.HISTORY, date, days[2 * i] ?? {}, (postedAt) => String(postedAt));
+    moved += rebucketDay(writes, KEYS.DUPLICATES, date, days[2 * i + 1] ?? {}, (match) =>
+      (typeof match === 'string' ? (JSON.parse(match) as DuplicateMatch) : (match as DuplicateMatch)).detectedAt
+    );
+  });
+  writes.set(KEYS.HISTORY_TIMEZONE, timeZone);
+  await writes.exec();
+  console.log(`Re-keyed history from ${previous} to ${timeZone} days (${moved} entries moved)`);
+}
+
+/**
+ * Re-key posting history and suppressed duplicates by day in the current timezone when it
+ * differs from the one they were keyed in (UTC before APP_TIMEZONE existed).
+ * Runs once per server instance; concurrent callers wait for the same run, and a failed run
+ * is tried again by the next caller.
+ */
+function migrateHistoryTimezone(): Promise<void> {
+  historyTimezoneMigration ??= runHistoryTimezoneMigration().catch((error) => {
+    historyTimezoneMigration = null;
+    throw error;
+  });
+  return historyTimezoneMigration;
+}
+
+/**
+ * Get the default number of days a job may wait in the queue (QUEUE_MAX_AGE_DAYS, default 7).
+ * Jobs can set their own limit with maxQueueDays.
+ */
+export function getMaxQueueDays(): number {
+  const days = Number(process.env.QUEUE_MAX_AGE_DAYS);
+  return days > 0 ? days : DEFAULT_MAX_QUEUE_DAYS;
+}
+
+function maxQueueDaysOf(job: ScrapedJob): number {
+  return job.maxQueueDays && job.maxQueueDays > 0 ? job.maxQueueDays : getMaxQueueDays();
+}
+
+/** Queued jobs' data must outlive their age limit; held jobs get at least a week for review */
+function jobDataTtl(job: ScrapedJob): number {
+  return Math.max(7, maxQueueDaysOf(job) + 1) * 60 * 60 * 24;
+}
+
+/**
+ * Queue the commands that move jobs into a state, recording why when a reason is given
+ */
+function pipeStateChange(pipeline: Pipeline, jobIds: string[], state: QueueState, reason?: string): void {
+  if (jobIds.length === 0) return;
+  const now = Date.now();
+  for (const other of QUEUE_STATES) {
+    if (other !== state) pipeline.zrem(KEYS.QUEUE(other), ...jobIds);
+  }
+  const [first, ...rest] = jobIds.map((id) => ({ score: now, member: id }));
+  pipeline.zadd(KEYS.QUEUE(state), first, ...rest);
+  if (reason) {
+    pipeline.hset(KEYS.QUEUE_REASONS, Object.fromEntries(jobIds.map((id) => [id, reason])));
+  } else {
+    pipeline.hdel(KEYS.QUEUE_REASONS, ...jobIds);
+  }
+  if (state !== 'queued') pipeline.hdel(KEYS.BOOSTS, ...jobIds);
+}
+
+/**
+ * Move jobs into a state, recording why when a reason is given
+ */
+async function setJobState(jobIds: string[], state: QueueState, reason?: string): Promise<void> {
+  if (jobIds.length === 0) return;
+  const pipeline = redis.pipeline();
+  pipeStateChange(pipeline, jobIds, state, reason);
+  await pipeline.exec();
 }
 
 /**
@@ -30,151 +222,569 @@ export async function isJobPosted(jobId: string): Promise<boolean> {
   return result === 1;
 }
 
+/** Where a job stands: a queue state, or held or rejected in scam review */
+export type JobQueueStatus = QueueState | 'held' | 'rejected';
+
 /**
- * Add jobs to today's pending queue (skips already posted jobs)
+ * Get where each job stands in the queue, or null for jobs never queued (or finished more
+ * than FINISHED_RETENTION_DAYS ago without being posted). One round-trip for any number of jobs.
  */
-export async function addJobsForToday(jobs: ScrapedJob[]): Promise<number> {
-  const today = getTodayDate();
-  const pendingKey = KEYS.TODAY_PENDING(today);
-  let addedCount = 0;
+export async function getJobQueueStatuses(jobIds: string[]): Promise<(JobQueueStatus | null)[]> {
+  if (jobIds.length === 0) return [];
+
+  const pipeline = redis.pipeline();
+  pipeline.smismember(KEYS.POSTED_ALL, jobIds);
+  for (const state of QUEUE_STATES) pipeline.zmscore(KEYS.QUEUE(state), jobIds);
+  pipeline.hmget(KEYS.REVIEW, ...jobIds);
+  pipeline.smismember(KEYS.REJECTED, jobIds);
+  const results = await pipeline.exec();
+
+  const posted = results[0] as (0 | 1)[];
+  const scores = results.slice(1, 1 + QUEUE_STATES.length) as ((number | null)[] | null)[];
+  const held = results[1 + QUEUE_STATES.length] as Record<string, unknown> | null;
+  const rejected = results[2 + QUEUE_STATES.length] as (0 | 1)[];
+
+  return jobIds.map((id, i) => {
+    if (posted[i] === 1) return 'posted';
+    const state = QUEUE_STATES.find((_, s) => scores[s]?.[i] != null);
+    if (state) return state;
+    if (held?.[id] != null) return 'held';
+    if (rejected[i] === 1) return 'rejected';
+    return null;
+  });
+}
 
-  for (const job of jobs) {
-    // Check if already posted
-    const alreadyPosted = await isJobPosted(job.id);
-    if (alreadyPosted) {
-      continue;
-    }
+/**
+ * Get where a job stands in the queue, or null if it has never been queued
+ */
+export async function getJobQueueStatus(jobId: string): Promise<JobQueueStatus | null> {
+  const [status] = await getJobQueueStatuses([jobId]);
+  return status;
+}
 
-    // Check if already in today's pending queue
-    const inPending = await redis.sismember(pendingKey, job.id);
-    if (inPending === 1) {
-      continue;
-    }
+/**
+ * Check if a job is queued, posted, skipped, expired, or held or rejected in review
+ */
+export async function isJobKnown(jobId: string): Promise<boolean> {
+  return (await getJobQueueStatus(jobId)) !== null;
+}
 
-    // Store job data with 7 day TTL
-    await redis.set(KEYS.JOB_DATA(job.id), JSON.stringify(job), { ex: 60 * 60 * 24 * 7 });
+/** A fingerprint bucket's entries by job ID */
+type FingerprintBucket = Map<string, FingerprintEntry>;
 
-    // Add to today's pending set
-    await redis.sadd(pendingKey, job.id);
+/**
+ * Load the fingerprint buckets for a batch of fingerprints in one round-trip
+ */
+async function loadFingerprintBuckets(keys: string[]): Promise<Map<string, FingerprintBucket>> {
+  const buckets = new Map<string, FingerprintBucket>();
+  if (keys.length === 0) return buckets;
+
+  const pipeline = redis.pipeline();
+  for (const key of keys) pipeline.hgetall(KEYS.FINGERPRINT(key));
+  const results = await pipeline.exec<(Record<string, FingerprintEntry | string> | null)[]>();
+
+  keys.forEach((key, i) => {
+    const entries = Object.entries(results[i] ?? {}).map(([id, value]): [string, FingerprintEntry] => [
+      id,
+      typeof value === 'string' ? JSON.parse(value) : value,
+    ]);
+    buckets.set(key, new Map(entries));
+  });
+  return buckets;
+}
+
+/**
+ * Of the given job IDs, find those still queued or already posted - skipped and expired
+ * jobs don't block reposts
+ */
+async function findLiveJobs(jobIds: string[]): Promise<Set<string>> {
+  if (jobIds.length === 0) return new Set();
 
-    // Set TTL on pending key (24 hours)
-    await redis.expire(pendingKey, 60 * 60 * 24);
+  const pipeline = redis.pipeline();
+  pipeline.zmscore(KEYS.QUEUE('queued'), jobIds);
+  pipeline.smismember(KEYS.POSTED_ALL, jobIds);
+  const [queued, posted] = await pipeline.exec<[(number | null)[] | null, (0 | 1)[]]>();
 
-    addedCount++;
-  }
+  return new Set(jobIds.filter((_, i) => queued?.[i] != null || posted[i] === 1));
+}
 
-  return addedCount;
+/**
+ * Find the closest match to a new job among a fingerprint bucket's live jobs
+ */
+function findDuplicate(
+  jobId: string,
+  fingerprint: JobFingerprint,
+  bucket: FingerprintBucket,
+  live: Set<string>
+): { id: string; entry: FingerprintEntry; similarity: number } | null {
+  let best: { id: string; entry: FingerprintEntry; similarity: number } | null = null;
+  for (const [id, entry] of bucket) {
+    if (id === jobId || !live.has(id)) continue;
+    const similarity = sketchSimilarity(fingerprint.sketch, entry.sketch);
+    if (similarity < DUPLICATE_SIMILARITY || (best && similarity <= best.similarity)) continue;
+    best = { id, entry, similarity };
+  }
+  return best;
 }
 
 /**
- * Get unposted jobs from today's queue.
- * @param limit Max number of jobs to return
- * @param all If true, fetch all pending jobs (for filtering); if false, fetch random sample
+ * Add jobs to the queue, where they wait until posted, skipped or expired.
+ * Skips jobs already known in any state and near-duplicates of queued or posted jobs (matched
+ * by content fingerprint, so reposts under new URLs and cross-board listings are caught).
+ * @returns IDs of the jobs that were added
  */
-export async function getTodaysUnpostedJobs(
-  limit: number = 2,
-  all: boolean = false
-): Promise<ScrapedJob[]> {
+export async function addJobsToQueue(jobs: ScrapedJob[]): Promise<string[]> {
+  await migrateHistoryTimezone();
   const today = getTodayDate();
-  const pendingKey = KEYS.TODAY_PENDING(today);
 
-  const jobIds = all
-    ? (await redis.smembers<string[]>(pendingKey)) ?? []
-    : (await redis.srandmember<string[]>(pendingKey, limit)) ?? [];
+  // Already queued, posted, skipped or expired - or held/rejected, which only return through review
+  const statuses = await getJobQueueStatuses(jobs.map((job) => job.id));
+  const seen = new Set<string>();
+  const candidates = jobs.filter((job, i) => {
+    if (statuses[i] !== null || seen.has(job.id)) return false;
+    seen.add(job.id);
+    return true;
+  });
+  if (candidates.length === 0) return [];
+
+  // Look for the same jobs under other URLs, among stored jobs and earlier jobs in this batch
+  const fingerprints = candidates.map(fingerprintJob);
+  const buckets = await loadFingerprintBuckets([...new Set(fingerprints.map((f) => f.key))]);
+  const similarIds = new Set<string>();
+  candidates.forEach((job, i) => {
+    for (const [id, entry] of buckets.get(fingerprints[i].key) ?? []) {
+      if (id !== job.id && sketchSimilarity(fingerprints[i].sketch, entry.sketch) >= DUPLICATE_SIMILARITY) {
+        similarIds.add(id);
+      }
+    }
+  });
+  const live = await findLiveJobs([...similarIds]);
+
+  const pipeline = redis.pipeline();
+  const now = Date.now();
+  const addedIds: string[] = [];
+
+  candidates.forEach((job, i) => {
+    const fingerprint = fingerprints[i];
+    const bucket = buckets.get(fingerprint.key)!;
+    const duplicate = findDuplicate(job.id, fingerprint, bucket, live);
+    if (duplicate) {
+      const match: DuplicateMatch = {
+        id: job.id,
+        title: job.title,
+        company: job.company,
+        source: job.source,
+        sourceUrl: job.sourceUrl,
+        matchedId: duplicate.id,
+        matchedTitle: duplicate.entry.title,
+        matchedCompany: duplicate.entry.company,
+        matchedSource: duplicate.entry.source,
+        similarity: Math.round(duplicate.similarity * 100) / 100,
+        detectedAt: new Date().toISOString(),
+      };
+      pipeline.hset(KEYS.DUPLICATES(today), { [job.id]: JSON.stringify(match) });
+      pipeline.expire(KEYS.DUPLICATES(today), HISTORY_TTL);
+      return;
+    }
+
+    // Job data lives at least as long as the job may wait in the queue
+    pipeline.set(KEYS.JOB_DATA(job.id), JSON.stringify(job), { ex: jobDataTtl(job) });
+
+    // Remember the fingerprint so later copies of this job (in this batch too) are suppressed
+    const entry: FingerprintEntry = {
+      sketch: fingerprint.sketch,
+      title: job.title,
+      company: job.company,
+      source: job.source,
+    };
+    pipeline.hset(KEYS.FINGERPRINT(fingerprint.key), { [job.id]: JSON.stringify(entry) });
+    pipeline.expire(KEYS.FINGERPRINT(fingerprint.key), FINGERPRINT_TTL);
+    bucket.set(job.id, entry);
+    live.add(job.id);
+
+    // Scores a millisecond apart keep the batch in scrape order
+    pipeline.zadd(KEYS.QUEUE('queued'), { score: now + i, member: job.id });
+    addedIds.push(job.id);
+  });
+
+  if (pipeline.length() > 0) await pipeline.exec();
+  return addedIds;
+}
+
+/** The running or finished legacy pending set migration, shared by every caller on this instance */
+let legacyPendingMigration: Promise<void> | null = null;
+
+async function runLegacyPendingMigration(): Promise<void> {
+  for (const daysAgo of [1, 0]) {
+    const date = new Date(Date.now() - daysAgo * DAY_MS).toISOString().split('T')[0];
+    const key = KEYS.LEGACY_PENDING(date);
+    const ids = ((await redis.smembers<string[]>(key)) ?? []).map(String);
+    if (ids.length === 0) continue;
 
-  if (!jobIds || jobIds.length === 0) {
-    return [];
+    const statuses = await getJobQueueStatuses(ids);
+    const pipeline = redis.pipeline();
+    for (const [i, id] of ids.entries()) {
+      if (statuses[i] === null) pipeline.zadd(KEYS.QUEUE('queued'), { score: Date.now(), member: id });
+    }
+    pipeline.del(key);
+    await pipeline.exec();
+    console.log(`Moved ${ids.length} job(s) from ${key} into the queue`);
   }
+}
+
+/**
+ * Move jobs left in the old date-keyed pending sets (today's and yesterday's UTC days) into the queue.
+ * Runs once per server instance; concurrent callers wait for the same run, and a failed run
+ * is tried again by the next caller.
+ */
+function migrateLegacyPendingSets(): Promise<void> {
+  legacyPendingMigration ??= runLegacyPendingMigration().catch((error) => {
+    legacyPendingMigration = null;
+    throw error;
+  });
+  return legacyPendingMigration;
+}
+
+/**
+ * Load every queued job, oldest first. Jobs past their application deadline or age limit
+ * (maxQueueDays, default QUEUE_MAX_AGE_DAYS), or whose data has gone, move to expired.
+ */
+async function loadQueuedJobs(): Promise<ListedJob[]> {
+  await migrateLegacyPendingSets();
 
-  const jobs: ScrapedJob[] = [];
-  for (const id of jobIds) {
-    const jobData = await redis.get<string>(KEYS.JOB_DATA(id));
-    if (jobData) {
-      const job = typeof jobData === 'string' ? JSON.parse(jobData) : jobData;
-      jobs.push(job);
+  const today = getTodayDate();
+  const now = Date.now();
+  const [entries, boosts] = await redis
+    .pipeline()
+    .zrange<(string | number)[]>(KEYS.QUEUE('queued'), 0, -1, { withScores: true })
+    .hgetall<Record<string, number | string>>(KEYS.BOOSTS)
+    .exec();
+  const ids = (entries ?? []).filter((_, i) => i % 2 === 0).map(String);
+  const data = await getJobs(ids);
+
+  const jobs: ListedJob[] = [];
+  const expired = new Map<string, string[]>();
+  const expire = (id: string, reason: string) => expired.set(reason, [...(expired.get(reason) ?? []), id]);
+
+  for (const [i, id] of ids.entries()) {
+    const queuedAt = Number(entries![i * 2 + 1]);
+    const job = data[i];
+    if (!job) {
+      expire(id, 'Job data expired');
+      continue;
     }
+    if (isDeadlinePassed(job.deadline, today)) {
+      expire(id, 'Application deadline passed');
+      continue;
+    }
+    const maxDays = maxQueueDaysOf(job);
+    const expiresAt = queuedAt + maxDays * DAY_MS;
+    if (now >= expiresAt) {
+      expire(id, `Not posted within ${maxDays} day(s)`);
+      continue;
+    }
+    const boost = Number(boosts?.[id]) || undefined;
+    jobs.push({ ...job, stateAt: new Date(queuedAt).toISOString(), expiresAt: new Date(expiresAt).toISOString(), boost });
+  }
+
+  if (expired.size > 0) {
+    const pipeline = redis.pipeline();
+    for (const [reason, expiredIds] of expired) pipeStateChange(pipeline, expiredIds, 'expired', reason);
+    await pipeline.exec();
+    console.log(`Expired ${[...expired.values()].flat().length} queued job(s)`);
   }
 
   return jobs;
 }
 
 /**
- * Mark jobs as posted and remove from pending queue
+ * Get unposted jobs from the queue. Jobs past their deadline or age limit are expired first;
+ * jobs closing soon come first (soonest deadline first), then the longest-waiting jobs.
+ * @param limit Max number of jobs to return (all when omitted)
+ */
+export async function getUnpostedJobs(limit?: number): Promise<ListedJob[]> {
+  const today = getTodayDate();
+  const jobs = await loadQueuedJobs();
+
+  const closingSoon = jobs
+    .filter((job) => isClosingSoon(job.deadline, today))
+    .sort((a, b) => a.deadline!.localeCompare(b.deadline!));
+  const others = jobs.filter((job) => !isClosingSoon(job.deadline, today));
+
+  const ordered = [...closingSoon, ...others];
+  return limit === undefined ? ordered : ordered.slice(0, limit);
+}
+
+/**
+ * Mark jobs as posted: they leave the queue and are added to today's history
  */
 export async function markAsPosted(jobIds: string[]): Promise<void> {
+  await migrateHistoryTimezone();
   const today = getTodayDate();
-  const pendingKey = KEYS.TODAY_PENDING(today);
   const historyKey = KEYS.HISTORY(today);
 
-  for (const id of jobIds) {
-    // Add to permanent posted set
-    await redis.sadd(KEYS.POSTED_ALL, id);
+  if (jobIds.length === 0) return;
 
-    // Remove from today's pending
-    await redis.srem(pendingKey, id);
+  const pipeline = redis.pipeline();
+  pipeStateChange(pipeline, jobIds, 'posted');
 
-    // Add to history with timestamp
-    await redis.hset(historyKey, {
-      [id]: new Date().toISOString(),
-    });
-  }
+  // Add to permanent posted set
+  const [first, ...rest] = jobIds;
+  pipeline.sadd(KEYS.POSTED_ALL, first, ...rest);
+
+  // Add to history with timestamp
+  const postedAt = new Date().toISOString();
+  pipeline.hset(historyKey, Object.fromEntries(jobIds.map((id) => [id, postedAt])));
 
   // Set TTL on history key (30 days)
-  await redis.expire(historyKey, 60 * 60 * 24 * 30);
+  pipeline.expire(historyKey, HISTORY_TTL);
+  await pipeline.exec();
+}
+
+/**
+ * Get the jobs posted since a given time, whose data hasn't expired yet
+ * @param since Unix time in ms
+ */
+export async function getRecentlyPostedJobs(since: number): Promise<ScrapedJob[]> {
+  const ids = (await redis.zrange<string[]>(KEYS.QUEUE('posted'), since, '+inf', { byScore: true })) ?? [];
+  const jobs = await getJobs(ids.map(String));
+  return jobs.filter((job): job is ScrapedJob => job !== null);
+}
+
+/**
+ * Set a queued job's manual ranking boost (clamped to +/- MAX_BOOST); 0 removes it
+ * @returns false if the job isn't queued
+ */
+export async function setJobBoost(jobId: string, boost: number): Promise<boolean> {
+  if ((await redis.zscore(KEYS.QUEUE('queued'), jobId)) === null) return false;
+  const points = Math.round(Math.max(-MAX_BOOST, Math.min(MAX_BOOST, boost)));
+  if (points === 0) {
+    await redis.hdel(KEYS.BOOSTS, jobId);
+  } else {
+    await redis.hset(KEYS.BOOSTS, { [jobId]: points });
+  }
+  return true;
+}
+
+/**
+ * Take jobs out of the queue without posting them (e.g. they no longer meet the posting rules)
+ */
+export async function skipJobs(jobIds: string[], reason: string): Promise<void> {
+  await setJobState(jobIds, 'skipped', reason);
+}
+
+/**
+ * Hold jobs for manual review instead of queueing them (e.g. likely scams).
+ * Held jobs leave the queue; already posted, held or rejected jobs are skipped.
+ * @returns IDs of the jobs that were held
+ */
+export async function holdJobsForReview(jobs: ScrapedJob[]): Promise<string[]> {
+  const statuses = await getJobQueueStatuses(jobs.map((job) => job.id));
+  const toHold = new Map<string, ScrapedJob>();
+  jobs.forEach((job, i) => {
+    if (statuses[i] !== 'posted' && statuses[i] !== 'held' && statuses[i] !== 'rejected') toHold.set(job.id, job);
+  });
+  if (toHold.size === 0) return [];
+
+  const heldIds = [...toHold.keys()];
+  const heldAt = new Date().toISOString();
+  const pipeline = redis.pipeline();
+  for (const job of toHold.values()) {
+    pipeline.set(KEYS.JOB_DATA(job.id), JSON.stringify(job), { ex: jobDataTtl(job) });
+  }
+  pipeline.hset(KEYS.REVIEW, Object.fromEntries(heldIds.map((id) => [id, heldAt])));
+  pipeline.zrem(KEYS.QUEUE('queued'), ...heldIds);
+  pipeline.hdel(KEYS.BOOSTS, ...heldIds);
+  await pipeline.exec();
+
+  return heldIds;
+}
+
+/**
+ * Get jobs held for review, most recently held first.
+ * Entries whose job data has expired are dropped.
+ */
+export async function getHeldJobs(): Promise<(ScrapedJob & { heldAt: string })[]> {
+  const held = Object.entries((await redis.hgetall<Record<string, string>>(KEYS.REVIEW)) ?? {});
+  const data = await getJobs(held.map(([id]) => id));
+  const jobs: (ScrapedJob & { heldAt: string })[] = [];
+  const expiredIds: string[] = [];
+
+  for (const [i, [id, heldAt]] of held.entries()) {
+    const job = data[i];
+    if (job) jobs.push({ ...job, heldAt });
+    else expiredIds.push(id);
+  }
+
+  if (expiredIds.length > 0) {
+    await redis.hdel(KEYS.REVIEW, ...expiredIds);
+  }
+
+  return jobs.sort((a, b) => b.heldAt.localeCompare(a.heldAt));
+}
+
+/**
+ * Release a held job into the queue. Approved jobs are not held again, and their
+ * age limit counts from approval.
+ * @returns false if the job isn't held or its data has expired
+ */
+export async function approveHeldJob(jobId: string): Promise<boolean> {
+  if ((await redis.hexists(KEYS.REVIEW, jobId)) !== 1) return false;
+  const job = await getJob(jobId);
+  await redis.hdel(KEYS.REVIEW, jobId);
+  if (!job) return false;
+
+  const approved: ScrapedJob = { ...job, riskApprovedAt: new Date().toISOString() };
+  await redis.set(KEYS.JOB_DATA(jobId), JSON.stringify(approved), { ex: jobDataTtl(approved) });
+  await setJobState([jobId], 'queued');
+  return true;
+}
+
+/**
+ * Reject a held job so it is never queued again
+ * @returns false if the job isn't held
+ */
+export async function rejectHeldJob(jobId: string): Promise<boolean> {
+  if ((await redis.hexists(KEYS.REVIEW, jobId)) !== 1) return false;
+  await redis.hdel(KEYS.REVIEW, jobId);
+  await redis.sadd(KEYS.REJECTED, jobId);
+  return true;
+}
+
+/**
+ * Drop posted, skipped and expired entries older than FINISHED_RETENTION_DAYS from the state lists.
+ * Posted jobs stay in the permanent posted set.
+ */
+async function trimFinishedStates(): Promise<void> {
+  const cutoff = Date.now() - FINISHED_RETENTION_DAYS * DAY_MS;
+  const finished = QUEUE_STATES.filter((s) => s !== 'queued');
+
+  const lookup = redis.pipeline();
+  for (const state of finished) lookup.zrange(KEYS.QUEUE(state), 0, cutoff, { byScore: true });
+  const old = await lookup.exec<(string[] | null)[]>();
+
+  const removal = redis.pipeline();
+  finished.forEach((state, i) => {
+    const ids = (old[i] ?? []).map(String);
+    if (ids.length === 0) return;
+    removal.zremrangebyscore(KEYS.QUEUE(state), 0, cutoff);
+    removal.hdel(KEYS.QUEUE_REASONS, ...ids);
+  });
+  if (removal.length() > 0) await removal.exec();
+}
+
+/**
+ * List the jobs in a finished state, newest first, with why they were skipped or expired.
+ * Entries whose job data has expired are left out.
+ */
+async function loadFinishedJobs(state: Exclude<QueueState, 'queued'>): Promise<ListedJob[]> {
+  const [entries, reasons] = await redis
+    .pipeline()
+    .zrange<(string | number)[]>(KEYS.QUEUE(state), 0, -1, { rev: true, withScores: true })
+    .hgetall<Record<string, string>>(KEYS.QUEUE_REASONS)
+    .exec();
+  const ids = (entries ?? []).filter((_, i) => i % 2 === 0).map(String);
+  const data = await getJobs(ids);
+
+  const jobs: ListedJob[] = [];
+  for (const [i, id] of ids.entries()) {
+    const job = data[i];
+    if (job) {
+      jobs.push({ ...job, stateAt: new Date(Number(entries![i * 2 + 1])).toISOString(), reason: reasons?.[id] });
+    }
+  }
+  return jobs;
 }
 
 const DEFAULT_PAGE_SIZE = 10;
 
 export interface QueueStatsOptions {
-  pendingPage?: number;
-  pendingLimit?: number;
+  /** Which state's jobs to list (default queued) */
+  state?: QueueState;
+  jobsPage?: number;
+  jobsLimit?: number;
   historyPage?: number;
   historyLimit?: number;
+  /** Only list jobs in this category */
+  category?: JobCategoryId;
+  /** Only list jobs at this seniority */
+  seniority?: Seniority;
+  /** Only list jobs that accept this qualification (e.g. "HND") */
+  education?: string;
+  /** Only list jobs asking for at most this many years of experience */
+  maxExperienceYears?: number;
+}
+
+/**
+ * Check a listed job against the dashboard filters in the options
+ */
+function matchesQueueFilters(job: ScrapedJob, opts: QueueStatsOptions): boolean {
+  if (opts.category && categoryOf(job) !== opts.category) return false;
+  if (!opts.seniority && !opts.education && opts.maxExperienceYears === undefined) return true;
+
+  const qualifications = qualificationsOf(job);
+  if (opts.seniority && qualifications.seniority !== opts.seniority) return false;
+  if (opts.education && !qualifications.education?.includes(opts.education)) return false;
+  if (opts.maxExperienceYears !== undefined && (qualifications.experienceYears?.min ?? 0) > opts.maxExperienceYears) {
+    return false;
+  }
+  return true;
 }
 
 /**
- * Get queue statistics for dashboard with pagination
+ * Get queue statistics for the dashboard: job counts by state (finished states cover the
+ * last FINISHED_RETENTION_DAYS days), and a page of jobs in the requested state
  */
 export async function getQueueStats(opts?: QueueStatsOptions): Promise<{
-  pendingToday: number;
+  states: Record<QueueState, number>;
   postedToday: number;
   totalPosted: number;
-  pendingJobs: ScrapedJob[];
-  pendingTotal: number;
+  jobs: ListedJob[];
+  jobsTotal: number;
   recentHistory: { id: string; postedAt: string }[];
   historyTotal: number;
+  duplicatesToday: DuplicateMatch[];
+  heldForReview: (ScrapedJob & { heldAt: string })[];
 }> {
+  await migrateHistoryTimezone();
   const today = getTodayDate();
-  const pendingKey = KEYS.TODAY_PENDING(today);
   const historyKey = KEYS.HISTORY(today);
+  const state = opts?.state ?? 'queued';
 
-  const pendingPage = Math.max(1, opts?.pendingPage ?? 1);
-  const pendingLimit = Math.min(50, Math.max(5, opts?.pendingLimit ?? DEFAULT_PAGE_SIZE));
+  const jobsPage = Math.max(1, opts?.jobsPage ?? 1);
+  const jobsLimit = Math.min(50, Math.max(5, opts?.jobsLimit ?? DEFAULT_PAGE_SIZE));
   const historyPage = Math.max(1, opts?.historyPage ?? 1);
   const historyLimit = Math.min(50, Math.max(5, opts?.historyLimit ?? DEFAULT_PAGE_SIZE));
 
-  // Get counts
-  const pendingToday = await redis.scard(pendingKey);
-  const totalPosted = await redis.scard(KEYS.POSTED_ALL);
+  // Loading the queue expires old jobs, so it runs before the counts
+  const queued = await loadQueuedJobs();
+  await trimFinishedStates();
+
+  // Counts, today's history and today's duplicates in one round-trip
+  const finished = QUEUE_STATES.filter((s) => s !== 'queued');
+  const pipeline = redis.pipeline();
+  for (const s of finished) pipeline.zcard(KEYS.QUEUE(s));
+  pipeline.scard(KEYS.POSTED_ALL);
+  pipeline.hgetall(historyKey);
+  pipeline.hgetall(KEYS.DUPLICATES(today));
+  const results = await pipeline.exec();
+
+  const states = { queued: queued.length } as Record<QueueState, number>;
+  finished.forEach((s, i) => {
+    states[s] = results[i] as number;
+  });
+  const totalPosted = results[finished.length] as number;
+  const todayHistory = results[finished.length + 1] as Record<string, string> | null;
+  const duplicateData = results[finished.length + 2] as Record<string, DuplicateMatch | string> | null;
 
-  // Get today's history
-  const todayHistory = await redis.hgetall<Record<string, string>>(historyKey);
   const postedToday = todayHistory ? Object.keys(todayHistory).length : 0;
 
-  // Get pending jobs (paginated)
-  const pendingIds = await redis.smembers<string[]>(pendingKey) ?? [];
-  const pendingTotal = pendingIds.length;
-  const pendingStart = (pendingPage - 1) * pendingLimit;
-  const pendingPaginatedIds = pendingIds.slice(pendingStart, pendingStart + pendingLimit);
-  const pendingJobs: ScrapedJob[] = [];
-
-  for (const id of pendingPaginatedIds) {
-    const jobData = await redis.get<string>(KEYS.JOB_DATA(id));
-    if (jobData) {
-      const job = typeof jobData === 'string' ? JSON.parse(jobData) : jobData;
-      pendingJobs.push(job);
-    }
-  }
+  // Jobs in the requested state, filtered then paginated
+  let jobs = state === 'queued' ? queued : await loadFinishedJobs(state);
+  if (opts) jobs = jobs.filter((job) => matchesQueueFilters(job, opts));
+  const jobsTotal = jobs.length;
+  const jobsStart = (jobsPage - 1) * jobsLimit;
+  jobs = jobs.slice(jobsStart, jobsStart + jobsLimit);
 
   // Format history (paginated, newest first)
   const historyEntries = todayHistory
@@ -185,14 +795,23 @@ export async function getQueueStats(opts?: QueueStatsOptions): Promise<{
   const historyStart = (historyPage - 1) * historyLimit;
   const recentHistory = historyEntries.slice(historyStart, historyStart + historyLimit);
 
+  // Duplicates suppressed today, newest first
+  const duplicatesToday = Object.values(duplicateData ?? {})
+    .map((value): DuplicateMatch => (typeof value === 'string' ? JSON.parse(value) : value))
+    .sort((a, b) => b.detectedAt.localeCompare(a.detectedAt));
+
+  const heldForReview = await getHeldJobs();
+
   return {
-    pendingToday,
+    states,
     postedToday,
     totalPosted,
-    pendingJobs,
-    pendingTotal,
+    jobs,
+    jobsTotal,
     recentHistory,
     historyTotal,
+    duplicatesToday,
+    heldForReview,
   };
 }
 
@@ -200,21 +819,26 @@ export async function getQueueStats(opts?: QueueStatsOptions): Promise<{
  * Get job data by ID
  */
 export async function getJob(jobId: string): Promise<ScrapedJob | null> {
-  const jobData = await redis.get<string>(KEYS.JOB_DATA(jobId));
-  if (!jobData) return null;
-  return typeof jobData === 'string' ? JSON.parse(jobData) : jobData;
+  const [job] = await getJobs([jobId]);
+  return job;
 }
 
 /**
- * Clear today's pending queue. Removes all jobs from the pending set.
- * Job data keys (job:xxx) remain until TTL expires (7 days).
+ * Get the data of several jobs in one round-trip, null where it has expired
+ */
+export async function getJobs(jobIds: string[]): Promise<(ScrapedJob | null)[]> {
+  if (jobIds.length === 0) return [];
+  const values = await redis.mget<(ScrapedJob | string | null)[]>(...jobIds.map(KEYS.JOB_DATA));
+  return values.map((value) => (!value ? null : typeof value === 'string' ? JSON.parse(value) : value));
+}
+
+/**
+ * Clear the queue by skipping every queued job. Job data keys (job:xxx) remain until their TTL.
  */
 export async function clearPendingQueue(): Promise<number> {
-  const today = getTodayDate();
-  const pendingKey = KEYS.TODAY_PENDING(today);
-  const count = await redis.scard(pendingKey);
-  await redis.del(pendingKey);
-  return count;
+  const ids = ((await redis.zrange<string[]>(KEYS.QUEUE('queued'), 0, -1)) ?? []).map(String);
+  await skipJobs(ids, 'Cleared from the dashboard');
+  return ids.length;
 }
 
 /**
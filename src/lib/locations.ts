@@ -0,0 +1,271 @@
+/**
+ * Nigerian location gazetteer - turns free-text job locations ("VI, Lagos", "FCT",
+ * "Ikeja / Remote") into structured places
+ */
+
+export interface NormalizedLocation {
+  city?: string;
+  /** Nigerian state, "FCT" for Abuja; unset outside Nigeria */
+  state?: string;
+  country: string;
+  remote: boolean;
+  hybrid: boolean;
+}
+
+interface StateEntry {
+  name: string;
+  /** Other ways the state is written, lowercase */
+  aliases: string[];
+  /** Hashtag used for jobs in the state */
+  hashtag: string;
+  /** Cities and areas in the state, as displayed; matched case-insensitively */
+  places: string[];
+}
+
+const COUNTRY = 'Nigeria';
+
+const STATES: StateEntry[] = [
+  { name: 'Abia', aliases: [], hashtag: 'Abia', places: ['Umuahia', 'Aba'] },
+  { name: 'Adamawa', aliases: [], hashtag: 'Adamawa', places: ['Yola', 'Mubi'] },
+  { name: 'Akwa Ibom', aliases: ['akwa-ibom', 'akwaibom'], hashtag: 'AkwaIbom', places: ['Uyo', 'Eket', 'Ikot Ekpene'] },
+  { name: 'Anambra', aliases: [], hashtag: 'Anambra', places: ['Awka', 'Onitsha', 'Nnewi'] },
+  { name: 'Bauchi', aliases: [], hashtag: 'Bauchi', places: [] },
+  { name: 'Bayelsa', aliases: [], hashtag: 'Bayelsa', places: ['Yenagoa'] },
+  { name: 'Benue', aliases: [], hashtag: 'Benue', places: ['Makurdi', 'Otukpo'] },
+  { name: 'Borno', aliases: [], hashtag: 'Borno', places: ['Maiduguri'] },
+  { name: 'Cross River', aliases: ['cross-river', 'crossriver'], hashtag: 'CrossRiver', places: ['Calabar'] },
+  { name: 'Delta', aliases: [], hashtag: 'Delta', places: ['Asaba', 'Warri', 'Sapele', 'Ughelli'] },
+  { name: 'Ebonyi', aliases: [], hashtag: 'Ebonyi', places: ['Abakaliki'] },
+  { name: 'Edo', aliases: [], hashtag: 'Edo', places: ['Benin City', 'Benin', 'Auchi'] },
+  { name: 'Ekiti', aliases: [], hashtag: 'Ekiti', places: ['Ado Ekiti', 'Ado-Ekiti'] },
+  { name: 'Enugu', aliases: [], hashtag: 'Enugu', places: ['Nsukka'] },
+  {
+    name: 'FCT',
+    aliases: ['abuja', 'f.c.t', 'f.c.t.', 'federal capital territory', 'abuja fct', 'fct abuja'],
+    hashtag: 'Abuja',
+    places: ['Abuja', 'Garki', 'Wuse', 'Maitama', 'Asokoro', 'Gwarinpa', 'Jabi', 'Utako', 'Kubwa', 'Lugbe', 'Central Business District', 'Gwagwalada'],
+  },
+  { name: 'Gombe', aliases: [], hashtag: 'Gombe', places: [] },
+  { name: 'Imo', aliases: [], hashtag: 'Imo', places: ['Owerri', 'Orlu', 'Okigwe'] },
+  { name: 'Jigawa', aliases: [], hashtag: 'Jigawa', places: ['Dutse'] },
+  { name: 'Kaduna', aliases: [], hashtag: 'Kaduna', places: ['Zaria', 'Kafanchan'] },
+  { name: 'Kano', aliases: [], hashtag: 'Kano', places: [] },
+  { name: 'Katsina', aliases: [], hashtag: 'Katsina', places: [] },
+  { name: 'Kebbi', aliases: [], hashtag: 'Kebbi', places: ['Birnin Kebbi'] },
+  { name: 'Kogi', aliases: [], hashtag: 'Kogi', places: ['Lokoja'] },
+  { name: 'Kwara', aliases: [], hashtag: 'Kwara', places: ['Ilorin'] },
+  {
+    name: 'Lagos',
+    aliases: ['lagos state', 'lag'],
+    hashtag: 'Lagos',
+    places: [
+      'Lagos', 'Ikeja', 'Victoria Island', 'VI', 'V.I', 'V.I.', 'Lekki', 'Ikoyi', 'Yaba', 'Surulere', 'Ajah', 'Apapa',
+      'Maryland', 'Ojota', 'Ogba', 'Oshodi', 'Isolo', 'Festac', 'Ikorodu', 'Epe', 'Badagry', 'Agege', 'Magodo',
+      'Gbagada', 'Ilupeju', 'Mushin', 'Lagos Island', 'Marina', 'Ojo', 'Alimosho', 'Egbeda', 'Ikotun', 'Sangotedo',
+      'Oregun', 'Anthony', 'Ketu', 'Obalende', 'Opebi', 'Allen', 'Chevron', 'Oniru', 'Idimu', 'Amuwo Odofin',
+    ],
+  },
+  { name: 'Nasarawa', aliases: ['nassarawa'], hashtag: 'Nasarawa', places: ['Lafia', 'Keffi'] },
+  { name: 'Niger', aliases: ['niger state'], hashtag: 'NigerState', places: ['Minna', 'Suleja', 'Bida'] },
+  { name: 'Ogun', aliases: [], hashtag: 'Ogun', places: ['Abeokuta', 'Sagamu', 'Shagamu', 'Ota', 'Sango Ota', 'Ijebu Ode', 'Mowe', 'Ibafo', 'Agbara'] },
+  { name: 'Ondo', aliases: [], hashtag: 'Ondo', places: ['Akure', 'Owo'] },
+  { name: 'Osun', aliases: [], hashtag: 'Osun', places: ['Osogbo', 'Oshogbo', 'Ile-Ife', 'Ife', 'Ilesa'] },
+  { name: 'Oyo', aliases: [], hashtag: 'Oyo', places: ['Ibadan', 'Ogbomosho', 'Ogbomoso'] },
+  { name: 'Plateau', aliases: [], hashtag: 'Plateau', places: ['Jos'] },
+  { name: 'Rivers', aliases: ['rivers state'], hashtag: 'PortHarcourt', places: ['Port Harcourt', 'PH', 'Portharcourt', 'Port-Harcourt', 'Bonny', 'Onne', 'Eleme', 'Obio-Akpor'] },
+  { name: 'Sokoto', aliases: [], hashtag: 'Sokoto', places: [] },
+  { name: 'Taraba', aliases: [], hashtag: 'Taraba', places: ['Jalingo'] },
+  { name: 'Yobe', aliases: [], hashtag: 'Yobe', places: ['Damaturu'] },
+  { name: 'Zamfara', aliases: [], hashtag: 'Zamfara', places: ['Gusau'] },
+];
+
+/** Other countries jobs are commonly posted for */
+const FOREIGN_COUNTRIES: Record<string, string> = {
+  ghana: 'Ghana',
+  kenya: 'Kenya',
+  'south africa': 'South Africa',
+  egypt: 'Egypt',
+  rwanda: 'Rwanda',
+  uk: 'United Kingdom',
+  'united kingdom': 'United Kingdom',
+  usa: 'United States',
+  us: 'United States',
+  'united states': 'United States',
+  canada: 'Canada',
+  uae: 'United Arab Emirates',
+  dubai: 'United Arab Emirates',
+};
+
+const REMOTE_PATTERN = /\b(?:remote(?:ly)?|work\s+from\s+home|wfh|anywhere)\b/i;
+const HYBRID_PATTERN = /\bhybrid\b/i;
+
+/** Separators between alternative locations; commas are handled separately (they usually narrow a place down) */
+const LIST_SEPARATORS = /\s*(?:\/|;|\||&|\+|\n|\band\b|\bor\b)\s*/i;
+
+type Place = { city?: string; state: string };
+
+// Lookup tables built once from the gazetteer
+const STATE_LOOKUP = new Map<string, StateEntry>();
+const PLACE_LOOKUP = new Map<string, Place>();
+for (const state of STATES) {
+  STATE_LOOKUP.set(state.name.toLowerCase(), state);
+  STATE_LOOKUP.set(`${state.name.toLowerCase()} state`, state);
+  for (const alias of state.aliases) STATE_LOOKUP.set(alias, state);
+  for (const place of state.places) {
+    // "VI" and "PH" stand for their full names
+    const city = place === 'VI' || place.startsWith('V.I') ? 'Victoria Island' : place === 'PH' ? 'Port Harcourt' : place;
+    PLACE_LOOKUP.set(place.toLowerCase(), { city, state: state.name });
+  }
+}
+// Abuja is both the FCT's city and how people write the state
+PLACE_LOOKUP.set('abuja', { city: 'Abuja', state: 'FCT' });
+
+function cleanToken(token: string): string {
+  return token
+    .replace(/\(([^)]*)\)/g, ' $1 ')
+    .replace(REMOTE_PATTERN, ' ')
+    .replace(HYBRID_PATTERN, ' ')
+    .replace(/\b(?:on-?site|in-?office|office|fully|full|partially|partly|100%)(?=\s|$)/gi, ' ')
+    .replace(/\s+/g, ' ')
+    .replace(/^[\s,.-]+|[\s,.-]+$/g, '')
+    .trim();
+}
+
+function titleCase(text: string): string {
+  return text.replace(/\w\S*/g, (word) => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase());
+}
+
+/**
+ * Normalize one alternative, e.g. "Ikeja, Lagos State (Hybrid)".
+ * Comma-separated tokens in the same state narrow the place down; tokens in different
+ * states are separate locations ("Lagos, Abuja").
+ */
+function normalizePart(part: string): NormalizedLocation[] {
+  const remote = REMOTE_PATTERN.test(part);
+  const hybrid = HYBRID_PATTERN.test(part);
+  const tokens = part.split(',').map(cleanToken).filter(Boolean);
+
+  let country = COUNTRY;
+  const byState = new Map<string, Place>();
+  const unknown: string[] = [];
+
+  for (const token of tokens) {
+    const key = token.toLowerCase();
+    if (key === 'nigeria' || key === 'ng') continue;
+    if (FOREIGN_COUNTRIES[key]) {
+      country = FOREIGN_COUNTRIES[key];
+      continue;
+    }
+    const place = PLACE_LOOKUP.get(key);
+    const state = STATE_LOOKUP.get(key);
+    if (place) {
+      const existing = byState.get(place.state);
+      // Keep the most specific place named for the state (an area beats the state's main city)
+      if (!existing?.city || existing.city === place.state || existing.city === 'Abuja') {
+        byState.set(place.state, place);
+      }
+    } else if (state) {
+      if (!byState.has(state.name)) byState.set(state.name, { state: state.name });
+    } else {
+      unknown.push(titleCase(token));
+    }
+  }
+
+  if (country !== COUNTRY) {
+    // Nigerian places can't be in another country - keep the text as the city
+    const city = [...unknown, ...Array.from(byState.values()).map((p) => p.city ?? p.state)].join(', ');
+    return [{ ...(city && { city }), country, remote, hybrid }];
+  }
+
+  const locations: NormalizedLocation[] = Array.from(byState.values()).map((place) => ({
+    ...(place.city && { city: place.city }),
+    state: place.state,
+    country,
+    remote,
+    hybrid,
+  }));
+
+  // Unknown names attach to a single known state ("Ogudu, Lagos") or stand alone
+  if (unknown.length > 0) {
+    if (locations.length === 1 && (!locations[0].city || locations[0].city === locations[0].state)) {
+      locations[0].city = unknown.join(', ');
+    } else if (locations.length === 0) {
+      locations.push({ city: unknown.join(', '), country, remote, hybrid });
+    }
+  }
+
+  if (locations.length === 0 && (remote || hybrid || tokens.length === 0)) {
+    locations.push({ country, remote, hybrid });
+  }
+  return locations;
+}
+
+/**
+ * Normalize a free-text job location into one or more structured places.
+ * "VI, Lagos" -> Victoria Island, Lagos; "FCT" -> Abuja; "Ikeja / Remote" -> Ikeja and a remote option.
+ * Empty text gives a single unspecified location in Nigeria.
+ */
+export function normalizeLocations(raw: string): NormalizedLocation[] {
+  const parts = raw.split(LIST_SEPARATORS).map((p) => p.trim()).filter(Boolean);
+  const locations = parts.flatMap(normalizePart);
+
+  // Drop exact repeats ("Lagos / Lagos State")
+  const seen = new Set<string>();
+  const unique = locations.filter((loc) => {
+    const key = JSON.stringify(loc);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+
+  return unique.length > 0 ? unique : [{ country: COUNTRY, remote: false, hybrid: false }];
+}
+
+/**
+ * Format a normalized location for display, e.g. "Victoria Island, Lagos (Hybrid)" or "Remote"
+ */
+export function formatLocation(location: NormalizedLocation): string {
+  const place = location.state === 'FCT'
+    ? location.city && location.city !== 'Abuja' ? `${location.city}, Abuja` : 'Abuja'
+    : [location.city, location.state !== location.city ? location.state : undefined].filter(Boolean).join(', ');
+  const name = location.country !== COUNTRY
+    ? [place, location.country].filter(Boolean).join(', ')
+    : place || (location.remote || location.hybrid ? '' : location.country);
+  const mode = location.remote ? 'Remote' : location.hybrid ? 'Hybrid' : '';
+  if (!name) return mode;
+  return mode ? `${name} (${mode})` : name;
+}
+
+/**
+ * Hashtags for a job's locations (e.g. Lagos, Abuja, PortHarcourt, RemoteJobs)
+ */
+export function getLocationHashtags(locations: NormalizedLocation[]): string[] {
+  const tags = new Set<string>();
+  for (const location of locations) {
+    const state = location.state ? STATE_LOOKUP.get(location.state.toLowerCase()) : undefined;
+    if (state) tags.add(state.hashtag);
+    if (location.remote) tags.add('RemoteJobs');
+  }
+  return Array.from(tags);
+}
+
+/**
+ * Get the state names (plus "Remote" for remote options) a job can be done from
+ */
+export function getLocationStates(locations: NormalizedLocation[]): string[] {
+  const states = new Set<string>();
+  for (const location of locations) {
+    if (location.state) states.add(location.state);
+    if (location.remote) states.add('Remote');
+  }
+  return Array.from(states);
+}
+
+/**
+ * Resolve a state name or alias ("Abuja", "lagos state", "Rivers") to the gazetteer's state name
+ */
+export function resolveStateName(text: string): string | undefined {
+  const key = text.trim().toLowerCase();
+  if (key === 'remote') return 'Remote';
+  return STATE_LOOKUP.get(key)?.name ?? PLACE_LOOKUP.get(key)?.state;
+}
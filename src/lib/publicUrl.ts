@@ -0,0 +1,94 @@
+/**
+ * Checks that a URL someone sent us points at a public web server, so pages fetched on a
+ * caller's behalf (e.g. imports) can't reach loopback, private network or cloud metadata hosts
+ */
+
+import { lookup } from 'dns/promises';
+import { isIP } from 'net';
+
+/** Thrown when a URL is not http(s) or its host resolves to a non-public address */
+export class UnsafeUrlError extends Error {
+  constructor(public url: string, reason: string) {
+    super(`Refusing to fetch ${url}: ${reason}`);
+    this.name = 'UnsafeUrlError';
+  }
+}
+
+/** IPv4 ranges that are not publicly routable, as [network, prefix length] */
+const PRIVATE_IPV4: [string, number][] = [
+  ['0.0.0.0', 8], // "this" network
+  ['10.0.0.0', 8], // private
+  ['100.64.0.0', 10], // carrier-grade NAT
+  ['127.0.0.0', 8], // loopback
+  ['169.254.0.0', 16], // link-local, incl. cloud metadata (169.254.169.254)
+  ['172.16.0.0', 12], // private
+  ['192.0.0.0', 24], // IETF protocol assignments
+  ['192.168.0.0', 16], // private
+  ['198.18.0.0', 15], // benchmarking
+  ['224.0.0.0', 4], // multicast
+  ['240.0.0.0', 4], // reserved, incl. broadcast
+];
+
+function ipv4ToNumber(address: string): number {
+  return address.split('.').reduce((n, part) => n * 256 + Number(part), 0);
+}
+
+function isPrivateIPv4(address: string): boolean {
+  const ip = ipv4ToNumber(address);
+  return PRIVATE_IPV4.some(([network, bits]) => {
+    const size = 2 ** (32 - bits);
+    return Math.floor(ip / size) === Math.floor(ipv4ToNumber(network) / size);
+  });
+}
+
+function isPrivateIPv6(address: string): boolean {
+  const ip = address.toLowerCase();
+  // IPv4-mapped addresses, written dotted (::ffff:10.0.0.1) or as URLs normalize them (::ffff:a00:1)
+  const mapped = ip.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) return isPrivateIPv4(mapped[1]);
+  const mappedHex = ip.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+  if (mappedHex) {
+    const [high, low] = [parseInt(mappedHex[1], 16), parseInt(mappedHex[2], 16)];
+    return isPrivateIPv4([high >> 8, high & 255, low >> 8, low & 255].join('.'));
+  }
+  return ip === '::' || ip === '::1'
+    || /^f[cd]/.test(ip) // unique local (fc00::/7)
+    || /^fe[89ab]/.test(ip) // link-local (fe80::/10)
+    || /^ff/.test(ip); // multicast
+}
+
+/**
+ * Check whether an IP address is loopback, private, link-local or otherwise not public
+ */
+function isPrivateAddress(address: string): boolean {
+  const version = isIP(address);
+  if (version === 4) return isPrivateIPv4(address);
+  if (version === 6) return isPrivateIPv6(address);
+  return true;
+}
+
+/**
+ * Throw UnsafeUrlError unless the URL is http(s) and every address its host resolves to is public
+ */
+export async function assertPublicUrl(url: string): Promise<void> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new UnsafeUrlError(url, 'not a valid URL');
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new UnsafeUrlError(url, 'only http and https URLs are allowed');
+  }
+
+  const host = parsed.hostname.replace(/^\[|\]$/g, '');
+  let addresses: string[];
+  try {
+    addresses = isIP(host) ? [host] : (await lookup(host, { all: true })).map((entry) => entry.address);
+  } catch {
+    throw new UnsafeUrlError(url, `${host} could not be resolved`);
+  }
+  if (addresses.length === 0 || addresses.some(isPrivateAddress)) {
+    throw new UnsafeUrlError(url, `${host} is not a public address`);
+  }
+}
@@ -0,0 +1,183 @@
+/**
+ * Experience, seniority, education and certification requirements extracted from job text
+ */
+
+export type Seniority = 'internship' | 'entry' | 'mid' | 'senior' | 'manager' | 'executive';
+
+/** Years of experience asked for; max is only set for ranges like "3-5 years" */
+export interface ExperienceRange {
+  min: number;
+  max?: number;
+}
+
+export interface JobQualifications {
+  experienceYears?: ExperienceRange;
+  seniority?: Seniority;
+  /** Accepted qualifications, lowest first, e.g. ["HND", "B.Sc"] */
+  education?: string[];
+  /** Professional certifications and registrations, e.g. ["ICAN", "ACCA"] */
+  certifications?: string[];
+}
+
+export const SENIORITY_LABELS: Record<Seniority, string> = {
+  internship: 'Internship',
+  entry: 'Entry level',
+  mid: 'Mid level',
+  senior: 'Senior',
+  manager: 'Manager',
+  executive: 'Executive',
+};
+
+/** Seniority keywords checked against the title, most specific first */
+const TITLE_SENIORITY: [Seniority, RegExp][] = [
+  ['internship', /\b(?:intern|internship|siwes|industrial\s+training|it\s+students?)\b/i],
+  ['executive', /\b(?:chief|ceo|cfo|cto|coo|cmo|director|vice\s+president|vp|general\s+manager|managing\s+director|head\s+of)\b/i],
+  ['manager', /\b(?:manager|supervisor|team\s+lead|lead)\b/i],
+  ['senior', /\b(?:senior|sr\.?|principal)\b/i],
+  ['entry', /\b(?:junior|jr\.?|entry[\s-]level|graduate|trainee)\b/i],
+];
+
+/** Entry-level wording in the description, for titles that don't say */
+const ENTRY_LEVEL_TEXT = /\b(?:entry[\s-]level|fresh\s+graduates?|no\s+(?:prior\s+)?experience\s+(?:is\s+)?required|graduate\s+trainee)\b/i;
+
+/** Qualifications in ascending order; the label is what posts and filters show */
+export const EDUCATION_LEVELS: { label: string; pattern: RegExp }[] = [
+  { label: 'SSCE', pattern: /\b(?:ssce|waec|neco|o['’]?\s*levels?|secondary\s+school\s+certificate)\b/i },
+  { label: 'OND', pattern: /\b(?:ond|ordinary\s+national\s+diploma)\b/i },
+  { label: 'NCE', pattern: /\b(?:nce|national\s+certificate\s+(?:in|of)\s+education)\b/i },
+  { label: 'HND', pattern: /\b(?:hnd|higher\s+national\s+diploma)\b/i },
+  {
+    label: 'B.Sc',
+    pattern: /(?:\bb\.?\s?sc\b|\bb\.?\s?eng\b|\bb\.?\s?tech\b|\bb\.a\.?(?![a-z])|\bbachelor['’]?s?\b|\bfirst\s+degree\b|\buniversity\s+degree\b)/i,
+  },
+  { label: 'MBA', pattern: /\bmba\b/i },
+  { label: 'M.Sc', pattern: /(?:\bm\.?\s?sc\b|\bm\.a\.?(?![a-z])|\bmaster['’]?s\s+degree\b)/i },
+  { label: 'PhD', pattern: /\b(?:ph\.?\s?d|doctorate)\b/i },
+];
+
+const CERTIFICATIONS: { label: string; pattern: RegExp }[] = [
+  { label: 'NYSC', pattern: /\bnysc\b/i },
+  { label: 'ICAN', pattern: /\bICAN\b/ },
+  { label: 'ACCA', pattern: /\bacca\b/i },
+  { label: 'CIMA', pattern: /\bcima\b/i },
+  { label: 'CFA', pattern: /\bcfa\b/i },
+  { label: 'CITN', pattern: /\bcitn\b/i },
+  { label: 'CIBN', pattern: /\bcibn\b/i },
+  { label: 'CIPM', pattern: /\bcipm\b/i },
+  { label: 'CIPD', pattern: /\bcipd\b/i },
+  { label: 'SHRM', pattern: /\bshrm\b/i },
+  { label: 'PMP', pattern: /\bpmp\b/i },
+  { label: 'PRINCE2', pattern: /\bprince\s?2\b/i },
+  { label: 'COREN', pattern: /\bcoren\b/i },
+  { label: 'NIQS', pattern: /\bniqs\b/i },
+  { label: 'TRCN', pattern: /\btrcn\b/i },
+  { label: 'NMCN', pattern: /\bnmcn\b|\bnursing\s+and\s+midwifery\s+council\b/i },
+  { label: 'PCN', pattern: /\bpharmacists?\s+council\b/i },
+  { label: 'MDCN', pattern: /\bmdcn\b/i },
+  { label: 'Nigerian Bar', pattern: /\bcalled\s+to\s+the\s+(?:nigerian\s+)?bar\b/i },
+  { label: 'NEBOSH', pattern: /\bnebosh\b/i },
+  { label: 'CCNA', pattern: /\bccna\b/i },
+  { label: 'CISSP', pattern: /\bcissp\b/i },
+  { label: 'CISA', pattern: /\bcisa\b/i },
+  { label: 'AWS', pattern: /\baws\s+certifi(?:ed|cation)\b/i },
+  { label: 'Six Sigma', pattern: /\bsix\s+sigma\b/i },
+];
+
+const NUMBER_WORDS: Record<string, number> = {
+  one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+  eleven: 11, twelve: 12, fifteen: 15, twenty: 20,
+};
+
+const NUMBER = `(\\d{1,2}|${Object.keys(NUMBER_WORDS).join('|')})`;
+
+/** "3-5 years", "3 to 5 yrs", "between 3 and 5 years" */
+const YEARS_RANGE = new RegExp(`\\b${NUMBER}\\s*(?:-|–|to|and)\\s*${NUMBER}\\s*\\+?\\s*(?:\\(\\d+\\)\\s*)?(?:years?|yrs?)\\b`, 'i');
+
+/** "3+ years", "2+ yrs", "minimum of 3 years", "three (3) years" */
+const YEARS_MIN = new RegExp(`\\b${NUMBER}\\s*(?:\\(\\d+\\)\\s*)?\\+?\\s*(?:years?|yrs?)\\b`, 'i');
+
+function toNumber(text: string): number {
+  return NUMBER_WORDS[text.toLowerCase()] ?? parseInt(text, 10);
+}
+
+/**
+ * Find the years of experience asked for, from the first line that mentions experience
+ */
+function extractExperience(text: string): ExperienceRange | undefined {
+  const lines = text.split(/\n|(?<=\.)\s+/).filter((line) => /experience/i.test(line));
+  for (const line of lines) {
+    const range = line.match(YEARS_RANGE);
+    if (range) {
+      const min = toNumber(range[1]);
+      const max = toNumber(range[2]);
+      if (min <= max && max <= 40) return { min, max };
+    }
+    const single = line.match(YEARS_MIN);
+    if (single) {
+      const min = toNumber(single[1]);
+      if (min <= 40) return { min };
+    }
+  }
+  return undefined;
+}
+
+function seniorityFromExperience(experience: ExperienceRange): Seniority {
+  if (experience.min <= 1) return 'entry';
+  if (experience.min <= 4) return 'mid';
+  return 'senior';
+}
+
+/**
+ * Extract structured requirements from a job's title and description
+ */
+export function extractQualifications(title: string, description: string): JobQualifications {
+  const qualifications: JobQualifications = {};
+
+  const experience = extractExperience(description);
+  if (experience) qualifications.experienceYears = experience;
+
+  const seniority = TITLE_SENIORITY.find(([, pattern]) => pattern.test(title))?.[0]
+    ?? (ENTRY_LEVEL_TEXT.test(description) ? 'entry' : undefined)
+    ?? (experience ? seniorityFromExperience(experience) : undefined);
+  if (seniority) qualifications.seniority = seniority;
+
+  const education = EDUCATION_LEVELS.filter(({ pattern }) => pattern.test(description)).map(({ label }) => label);
+  if (education.length > 0) qualifications.education = education;
+
+  const certifications = CERTIFICATIONS.filter(({ pattern }) => pattern.test(description)).map(({ label }) => label);
+  if (certifications.length > 0) qualifications.certifications = certifications;
+
+  return qualifications;
+}
+
+/**
+ * Get a job's stored requirements, extracting them for jobs stored before extraction existed
+ */
+export function qualificationsOf(job: JobQualifications & { title: string; description: string }): JobQualifications {
+  if (job.seniority || job.experienceYears || job.education || job.certifications) {
+    return {
+      experienceYears: job.experienceYears,
+      seniority: job.seniority,
+      education: job.education,
+      certifications: job.certifications,
+    };
+  }
+  return extractQualifications(job.title, job.description);
+}
+
+/**
+ * Format requirements as a compact line, e.g. "Entry level · B.Sc · 2+ yrs · ICAN/ACCA".
+ * NYSC is left out - nearly every Nigerian listing asks for it.
+ */
+export function formatQualifications(qualifications: JobQualifications): string {
+  const parts: string[] = [];
+  if (qualifications.seniority) parts.push(SENIORITY_LABELS[qualifications.seniority]);
+  if (qualifications.education?.length) parts.push(qualifications.education.slice(0, 2).join('/'));
+  const years = qualifications.experienceYears;
+  if (years) {
+    parts.push(years.max !== undefined ? `${years.min}-${years.max} yrs` : `${years.min}+ yrs`);
+  }
+  const certifications = qualifications.certifications?.filter((c) => c !== 'NYSC') ?? [];
+  if (certifications.length > 0) parts.push(certifications.slice(0, 3).join('/'));
+  return parts.join(' · ');
+}
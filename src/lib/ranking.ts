@@ -0,0 +1,166 @@
+/**
+ * Ranking of queued jobs for auto-posting. Each factor adds (or, for diversity, takes away)
+ * points, so the dry-run preview can show why a job was picked over the rest of the queue.
+ */
+
+import type { ScrapedJob } from './scraper';
+import { categoryOf, getCategory } from './categories';
+import { qualificationsOf } from './qualifications';
+import { localDateKey } from './timezone';
+
+export type RankingFactor = 'freshness' | 'deadline' | 'completeness' | 'diversity' | 'boost';
+
+/** One factor's contribution to a job's score */
+export interface RankingReason {
+  factor: RankingFactor;
+  points: number;
+  detail: string;
+}
+
+export interface RankedJob<T extends ScrapedJob> {
+  job: T;
+  score: number;
+  reasons: RankingReason[];
+}
+
+/** A queued job, with the manual boost set on the dashboard */
+type RankableJob = ScrapedJob & { boost?: number };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Points for a job listed today, falling to 0 over FRESHNESS_DAYS */
+const FRESHNESS_POINTS = 30;
+const FRESHNESS_DAYS = 14;
+
+/** Points for a job closing today, falling to 0 over DEADLINE_DAYS */
+const DEADLINE_POINTS = 25;
+const DEADLINE_DAYS = 7;
+
+/** Points for each detail that makes a post useful to applicants (25 in total) */
+const COMPLETENESS_POINTS = {
+  description: 10,
+  salary: 6,
+  deadline: 3,
+  location: 3,
+  qualifications: 3,
+};
+
+/** A description this long counts as complete; half points from half the length */
+const FULL_DESCRIPTION_CHARS = 600;
+
+/** Penalty per recent or already-picked post in the same category, and at the same company */
+const SAME_CATEGORY_PENALTY = 8;
+const SAME_COMPANY_PENALTY = 20;
+const MAX_CATEGORY_PENALTY = 24;
+
+function daysBetween(from: number, to: number): number {
+  return Math.floor((to - from) / DAY_MS);
+}
+
+function scoreFreshness(job: ScrapedJob, now: Date): RankingReason {
+  const listedAt = Date.parse(job.datePosted ?? '') || Date.parse(job.scrapedAt);
+  if (isNaN(listedAt)) return { factor: 'freshness', points: 0, detail: 'Listing date unknown' };
+
+  const age = Math.max(0, daysBetween(listedAt, now.getTime()));
+  const points = Math.round(FRESHNESS_POINTS * Math.max(0, 1 - age / FRESHNESS_DAYS));
+  const when = age === 0 ? 'today' : `${age} day(s) ago`;
+  return { factor: 'freshness', points, detail: job.datePosted ? `Listed ${when}` : `Found ${when}` };
+}
+
+function scoreDeadline(job: ScrapedJob, now: Date): RankingReason {
+  if (!job.deadline) return { factor: 'deadline', points: 0, detail: 'No deadline stated' };
+
+  const today = Date.parse(localDateKey(now));
+  const daysLeft = daysBetween(today, Date.parse(job.deadline));
+  if (isNaN(daysLeft)) return { factor: 'deadline', points: 0, detail: 'No deadline stated' };
+  if (daysLeft > DEADLINE_DAYS) return { factor: 'deadline', points: 0, detail: `Closes in ${daysLeft} days` };
+
+  const points = Math.round(DEADLINE_POINTS * (1 - daysLeft / (DEADLINE_DAYS + 1)));
+  return { factor: 'deadline', points, detail: daysLeft === 0 ? 'Closes today' : `Closes in ${daysLeft} day(s)` };
+}
+
+function scoreCompleteness(job: ScrapedJob): RankingReason {
+  const descriptionLength = job.description.trim().length;
+  const qualifications = qualificationsOf(job);
+  const checks: [keyof typeof COMPLETENESS_POINTS, number][] = [
+    ['description', descriptionLength >= FULL_DESCRIPTION_CHARS ? 1 : descriptionLength >= FULL_DESCRIPTION_CHARS / 2 ? 0.5 : 0],
+    ['salary', job.salary || job.salaryText ? 1 : 0],
+    ['deadline', job.deadline ? 1 : 0],
+    ['location', job.locations?.length || job.location.trim() ? 1 : 0],
+    ['qualifications', qualifications.experienceYears || qualifications.education ? 1 : 0],
+  ];
+
+  const points = checks.reduce((sum, [item, share]) => sum + Math.round(COMPLETENESS_POINTS[item] * share), 0);
+  const missing = checks.filter(([, share]) => share < 1).map(([item]) => (item === 'description' ? 'full description' : item));
+  return {
+    factor: 'completeness',
+    points,
+    detail: missing.length === 0 ? 'All details present' : `Missing ${missing.join(', ')}`,
+  };
+}
+
+/**
+ * Penalise jobs like the ones posted recently or already picked this run, so a feed isn't
+ * several posts in a row from one company or one category
+ */
+function scoreDiversity(job: ScrapedJob, recent: ScrapedJob[]): RankingReason {
+  const category = categoryOf(job);
+  const company = job.company.trim().toLowerCase();
+  const sameCategory = recent.filter((r) => categoryOf(r) === category).length;
+  const sameCompany = recent.filter((r) => r.company.trim().toLowerCase() === company).length;
+
+  const points = -Math.min(MAX_CATEGORY_PENALTY, sameCategory * SAME_CATEGORY_PENALTY) - sameCompany * SAME_COMPANY_PENALTY;
+  const notes: string[] = [];
+  if (sameCompany > 0) notes.push(`${sameCompany} recent post(s) from ${job.company}`);
+  if (sameCategory > 0) notes.push(`${sameCategory} recent ${getCategory(category).label} post(s)`);
+  return { factor: 'diversity', points, detail: notes.length > 0 ? notes.join('; ') : 'Nothing similar posted recently' };
+}
+
+/**
+ * Score a job against the jobs posted recently (and any picked before it in the same run)
+ */
+export function scoreJob<T extends RankableJob>(job: T, recent: ScrapedJob[], now: Date = new Date()): RankedJob<T> {
+  const reasons = [
+    scoreFreshness(job, now),
+    scoreDeadline(job, now),
+    scoreCompleteness(job),
+    scoreDiversity(job, recent),
+  ];
+  if (job.boost) {
+    reasons.push({ factor: 'boost', points: job.boost, detail: `Boosted by ${job.boost > 0 ? '+' : ''}${job.boost} on the dashboard` });
+  }
+  return { job, score: reasons.reduce((sum, r) => sum + r.points, 0), reasons };
+}
+
+/**
+ * Rank jobs for posting. Picks are made one at a time, each scored for diversity against the
+ * recently posted jobs and the picks before it; ties keep the input (queue) order.
+ * @param count How many jobs will be posted - the first `count` results are the picks
+ * @param recentlyPosted Jobs posted recently, e.g. over the last day
+ * @returns Every job, picks first, then the rest by score
+ */
+export function rankJobs<T extends RankableJob>(
+  jobs: T[],
+  count: number,
+  recentlyPosted: ScrapedJob[],
+  now: Date = new Date()
+): RankedJob<T>[] {
+  const remaining = [...jobs];
+  const picked: RankedJob<T>[] = [];
+
+  while (picked.length < count && remaining.length > 0) {
+    const recent = [...recentlyPosted, ...picked.map((p) => p.job)];
+    const scored = remaining.map((job) => scoreJob(job, recent, now));
+    const best = scored.reduce((top, s) => (s.score > top.score ? s : top));
+    picked.push(best);
+    remaining.splice(remaining.indexOf(best.job), 1);
+  }
+
+  const recent = [...recentlyPosted, ...picked.map((p) => p.job)];
+  const rest = remaining
+    .map((job, index) => ({ ranked: scoreJob(job, recent, now), index }))
+    .sort((a, b) => b.ranked.score - a.ranked.score || a.index - b.index)
+    .map(({ ranked }) => ranked);
+
+  return [...picked, ...rest];
+}
@@ -0,0 +1,207 @@
+/**
+ * robots.txt parsing and caching for the job scrapers
+ */
+
+import { redis } from './redis';
+
+/** How long a host's robots.txt is cached */
+const ROBOTS_CACHE_TTL = 60 * 60 * 24;
+
+/** Shorter cache when robots.txt couldn't be fetched, so we retry sooner */
+const ROBOTS_ERROR_CACHE_TTL = 60 * 60;
+
+/** Longest a robots.txt fetch may take before the host counts as unreachable */
+const ROBOTS_TIMEOUT_MS = 5000;
+
+const ROBOTS_KEY = (origin: string) => `robots:${origin}`;
+
+interface RobotsRule {
+  allow: boolean;
+  path: string;
+}
+
+/** Rules from the robots.txt group that applies to our user agent */
+export interface RobotsRules {
+  rules: RobotsRule[];
+  /** Seconds to wait between requests, if the host asks for it */
+  crawlDelay?: number;
+  /** True when robots.txt was unreachable; everything is disallowed until it can be read */
+  unreachable?: boolean;
+}
+
+/**
+ * Thrown by fetchPage when robots.txt disallows a URL for our user agent
+ */
+export class RobotsDisallowedError extends Error {
+  constructor(public url: string) {
+    super(`Blocked by robots.txt: ${url}`);
+    this.name = 'RobotsDisallowedError';
+  }
+}
+
+/** How long rules stay in the per-instance memory cache */
+const MEMORY_CACHE_MS = 10 * 60 * 1000;
+
+// Per-instance cache so a scrape run reads each host's rules from Redis once
+const memoryCache = new Map<string, { rules: RobotsRules; expiresAt: number }>();
+
+// robots.txt lookups in flight, so concurrent requests to a new host share one fetch
+const pendingLookups = new Map<string, Promise<RobotsRules>>();
+
+function remember(origin: string, rules: RobotsRules): RobotsRules {
+  memoryCache.set(origin, { rules, expiresAt: Date.now() + MEMORY_CACHE_MS });
+  return rules;
+}
+
+/**
+ * Parse robots.txt content into the rules for the given user agent.
+ * Groups naming our product token exactly (case-insensitive, per RFC 9309) apply, merged
+ * if there are several; otherwise the "*" groups do.
+ */
+export function parseRobotsTxt(content: string, userAgent: string): RobotsRules {
+  const agentToken = userAgent.split('/')[0].trim().toLowerCase();
+  const groups: { agents: string[]; rules: RobotsRule[]; crawlDelay?: number }[] = [];
+  let current: (typeof groups)[number] | null = null;
+  let lastWasAgent = false;
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const sep = line.indexOf(':');
+    if (sep === -1) continue;
+    const field = line.slice(0, sep).trim().toLowerCase();
+    const value = line.slice(sep + 1).trim();
+
+    if (field === 'user-agent') {
+      // Consecutive user-agent lines share one group
+      if (!current || !lastWasAgent) {
+        current = { agents: [], rules: [] };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      lastWasAgent = true;
+      continue;
+    }
+
+    lastWasAgent = false;
+    if (!current) continue;
+    if (field === 'allow' || field === 'disallow') {
+      // An empty Disallow allows everything
+      if (value) current.rules.push({ allow: field === 'allow', path: value });
+    } else if (field === 'crawl-delay') {
+      const delay = parseFloat(value);
+      if (delay > 0) current.crawlDelay = delay;
+    }
+  }
+
+  const ours = groups.filter((g) => g.agents.includes(agentToken));
+  const matching = ours.length > 0 ? ours : groups.filter((g) => g.agents.includes('*'));
+  const delays = matching.map((g) => g.crawlDelay).filter((d): d is number => d !== undefined);
+
+  return {
+    rules: matching.flatMap((g) => g.rules),
+    ...(delays.length > 0 && { crawlDelay: Math.max(...delays) }),
+  };
+}
+
+/** Convert a robots.txt path pattern (with * and $) into a RegExp */
+function patternToRegex(path: string): RegExp {
+  const anchored = path.endsWith('$');
+  const body = (anchored ? path.slice(0, -1) : path)
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${body}${anchored ? '$' : ''}`);
+}
+
+/**
+ * Check a path against robots rules. The longest matching rule wins; Allow wins ties.
+ */
+export function isPathAllowed(robots: RobotsRules, path: string): boolean {
+  if (robots.unreachable) return false;
+
+  let best: RobotsRule | null = null;
+  for (const rule of robots.rules) {
+    if (!patternToRegex(rule.path).test(path)) continue;
+    if (
+      !best ||
+      rule.path.length > best.path.length ||
+      (rule.path.length === best.path.length && rule.allow)
+    ) {
+      best = rule;
+    }
+  }
+  return best ? best.allow : true;
+}
+
+/**
+ * Read a host's robots rules from Redis, or fetch and cache robots.txt.
+ * A missing robots.txt (4xx) allows everything; an unreachable one (5xx, network error or
+ * ROBOTS_TIMEOUT_MS timeout) disallows everything until it can be read. Running out of time
+ * before the deadline throws instead, so the host isn't cached as unreachable.
+ */
+async function loadRobotsRules(origin: string, userAgent: string, deadline: number): Promise<RobotsRules> {
+  const key = ROBOTS_KEY(origin);
+  try {
+    const cached = await redis.get<RobotsRules>(key);
+    if (cached) return cached;
+  } catch {
+    // Redis not configured or error - fetch robots.txt directly
+  }
+
+  let rules: RobotsRules;
+  let ttl = ROBOTS_CACHE_TTL;
+  try {
+    const response = await fetch(`${origin}/robots.txt`, {
+      headers: { 'User-Agent': userAgent, 'Accept': 'text/plain' },
+      signal: AbortSignal.timeout(Math.max(0, Math.min(deadline - Date.now(), ROBOTS_TIMEOUT_MS))),
+    });
+    if (response.ok) {
+      rules = parseRobotsTxt(await response.text(), userAgent);
+    } else if (response.status >= 400 && response.status < 500) {
+      rules = { rules: [] };
+    } else {
+      rules = { rules: [], unreachable: true };
+      ttl = ROBOTS_ERROR_CACHE_TTL;
+    }
+  } catch (error) {
+    if (Date.now() >= deadline) throw error;
+    console.error(`Failed to fetch robots.txt for ${origin}:`, error);
+    rules = { rules: [], unreachable: true };
+    ttl = ROBOTS_ERROR_CACHE_TTL;
+  }
+
+  try {
+    await redis.set(key, rules, { ex: ttl });
+  } catch {
+    // Ignore cache write errors
+  }
+  return rules;
+}
+
+/**
+ * Get the robots rules for a URL's host, from memory, Redis, or by fetching robots.txt
+ * (giving up at the deadline, in ms)
+ */
+export async function getRobotsRules(url: string, userAgent: string, deadline: number = Infinity): Promise<RobotsRules> {
+  const origin = new URL(url).origin;
+  const memo = memoryCache.get(origin);
+  if (memo && memo.expiresAt > Date.now()) return memo.rules;
+
+  let lookup = pendingLookups.get(origin);
+  if (!lookup) {
+    lookup = loadRobotsRules(origin, userAgent, deadline)
+      .then((rules) => remember(origin, rules))
+      .finally(() => pendingLookups.delete(origin));
+    pendingLookups.set(origin, lookup);
+  }
+  return lookup;
+}
+
+/**
+ * Check whether robots.txt allows our user agent to fetch a URL
+ */
+export async function isAllowedByRobots(url: string, userAgent: string, deadline: number = Infinity): Promise<boolean> {
+  const rules = await getRobotsRules(url, userAgent, deadline);
+  const { pathname, search } = new URL(url);
+  return isPathAllowed(rules, `${pathname}${search}`);
+}
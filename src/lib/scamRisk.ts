@@ -0,0 +1,179 @@
+/**
+ * Scam and fraud risk scoring for job listings. Each matched signal adds its weight to the
+ * score, so every hold can be explained by the signals that caused it.
+ */
+
+import type { ScrapedJob } from './scraper';
+import { toMonthlyAmount } from './utils';
+
+export type RiskLevel = 'low' | 'medium' | 'high';
+
+/** A piece of evidence that a listing may be a scam */
+export interface RiskSignal {
+  id: string;
+  /** Human-readable reason, shown on the dashboard */
+  reason: string;
+  weight: number;
+  /** The text that triggered the signal, when there is one */
+  evidence?: string;
+}
+
+export interface RiskAssessment {
+  /** Sum of signal weights, capped at 100 */
+  score: number;
+  level: RiskLevel;
+  signals: RiskSignal[];
+  assessedAt: string;
+}
+
+type RiskInput = Pick<ScrapedJob, 'title' | 'company' | 'description' | 'applyUrl'> & Partial<Pick<ScrapedJob, 'salary'>>;
+
+/** Score from which a job counts as medium risk (flagged, still posted) */
+const MEDIUM_RISK_SCORE = 25;
+
+/** Free email providers - legitimate employers rarely recruit from these */
+const FREE_MAIL_DOMAINS = /@(?:g(?:oogle)?mail\.com|yahoo\.(?:com|co\.uk)|ymail\.com|hotmail\.(?:com|co\.uk)|outlook\.com|live\.com|aol\.com|icloud\.com|mail\.com|proton(?:mail)?\.(?:com|me))(?![\w-]|\.\w)/i;
+
+/** Monthly NGN pay this high with no stated experience is a common bait */
+const BAIT_MONTHLY_NGN = 1_500_000;
+
+interface TextRule {
+  id: string;
+  reason: string;
+  weight: number;
+  pattern: RegExp;
+  /** Ignore matches negated just before, in their clause ("we do not charge any application fee") */
+  negatable?: boolean;
+}
+
+/** Signals found in the title or description */
+const TEXT_RULES: TextRule[] = [
+  {
+    id: 'upfront-fee',
+    reason: 'Asks applicants to pay a fee',
+    weight: 60,
+    negatable: true,
+    pattern: /\b(?:application|registration|processing|training|form|screening|medical|uniform|onboarding|enrol?ment|documentation|kit)\s+fees?\b|\bpay\s+(?:a|the)\s+(?:token|sum|fee)\b|\brefundable\s+(?:fee|deposit)\b/i,
+  },
+  {
+    id: 'financial-details',
+    reason: 'Asks for bank, BVN or card details',
+    weight: 50,
+    negatable: true,
+    pattern: /\b(?:bvn|atm\s+card|card\s+pin|bank\s+(?:account\s+)?(?:details|login|password)|account\s+password)\b/i,
+  },
+  {
+    id: 'too-good',
+    reason: 'Promises easy or guaranteed earnings',
+    weight: 20,
+    pattern: /\b(?:guaranteed\s+(?:income|job|employment|placement)|earn\s+(?:up\s+to\s+)?(?:₦|n|ngn|\$)\s?[\d,]+\s*(?:daily|per\s+day|weekly|a\s+day)|no\s+interview|instant\s+(?:employment|job|payment)|work\s+from\s+home\s+and\s+earn|make\s+money\s+online)\b/i,
+  },
+  {
+    id: 'crypto-or-investment',
+    reason: 'Mentions crypto or investment schemes',
+    weight: 25,
+    pattern: /\b(?:forex\s+trading\s+account|crypto\s+(?:investment|wallet)|investment\s+(?:package|plan)|minimum\s+investment|recharge\s+(?:card|your\s+account))\b/i,
+  },
+  {
+    id: 'pressure',
+    reason: 'Uses pressure tactics',
+    weight: 10,
+    pattern: /\b(?:limited\s+slots?|first\s+come,?\s+first\s+served|only\s+\d+\s+slots?|act\s+(?:now|fast))\b/i,
+  },
+];
+
+/** Company names that hide who is hiring */
+const HIDDEN_COMPANY = /^(?:confidential|undisclosed|anonymous|a\s+(?:reputable|leading|well[\s-]known)\b.*|our\s+client)$/i;
+
+/** Words that negate what follows them, e.g. "there is no application fee", "we will never ask for your BVN" */
+const NEGATION = /\b(?:no|not|never|don'?t|doesn'?t|won'?t|without|free\s+of)\b/i;
+
+/** How many words before a match a negation can be ("we will never ask for BVN or bank details") */
+const NEGATION_WORDS = 5;
+
+/** Start of the clause a match is in: the text after the last punctuation, line break or "but" before it */
+function clauseBefore(text: string, index: number): string {
+  const before = text.slice(0, index);
+  const clause = before.slice(Math.max(...[...'.,;:!?\n'].map((mark) => before.lastIndexOf(mark))) + 1);
+  return clause.split(/\bbut\b/i).pop()!;
+}
+
+/** Whether a negation comes within a few words before the match, in the same clause */
+function isNegated(text: string, index: number): boolean {
+  const words = clauseBefore(text, index).split(/\s+/).filter(Boolean);
+  return NEGATION.test(words.slice(-NEGATION_WORDS).join(' '));
+}
+
+function matchRule(text: string, rule: TextRule): RiskSignal | null {
+  for (const match of text.matchAll(new RegExp(rule.pattern.source, `${rule.pattern.flags}g`))) {
+    if (rule.negatable && isNegated(text, match.index!)) continue;
+    return { id: rule.id, reason: rule.reason, weight: rule.weight, evidence: match[0] };
+  }
+  return null;
+}
+
+/**
+ * Score from which jobs are held for manual review instead of posted
+ * (SCAM_RISK_HOLD_SCORE, default 50)
+ */
+export function getRiskHoldScore(): number {
+  const score = Number(process.env.SCAM_RISK_HOLD_SCORE);
+  return score > 0 ? score : 50;
+}
+
+/**
+ * Assess how likely a job listing is to be a scam
+ */
+export function assessScamRisk(job: RiskInput): RiskAssessment {
+  const text = `${job.title}\n${job.description}`;
+  const apply = job.applyUrl.trim();
+  const signals: RiskSignal[] = [];
+
+  for (const rule of TEXT_RULES) {
+    const signal = matchRule(text, rule);
+    if (signal) signals.push(signal);
+  }
+
+  // Contact channels
+  const whatsapp = /(?:wa\.me\/|api\.whatsapp\.com|\bwhats\s?app\b)/i;
+  if (whatsapp.test(apply)) {
+    signals.push({ id: 'whatsapp-only', reason: 'Applications only via WhatsApp', weight: 35, evidence: apply });
+  } else if (whatsapp.test(job.description)) {
+    signals.push({ id: 'whatsapp', reason: 'Asks applicants to reach out on WhatsApp', weight: 15 });
+  }
+
+  const email = apply.replace(/^mailto:/i, '');
+  const freeMail = email.match(FREE_MAIL_DOMAINS) ?? job.description.match(FREE_MAIL_DOMAINS);
+  if (freeMail) {
+    signals.push({ id: 'free-mail', reason: 'Recruiter uses a free email address', weight: 20, evidence: freeMail[0].slice(1) });
+  }
+
+  if (/^\+?[\d\s()-]{10,}$/.test(apply)) {
+    signals.push({ id: 'phone-only', reason: 'Applications only by phone', weight: 20, evidence: apply });
+  }
+
+  if (/\b(?:bit\.ly|tinyurl\.com|cutt\.ly|shorturl\.at|t\.ly|rb\.gy)\//i.test(apply)) {
+    signals.push({ id: 'short-link', reason: 'Apply link hides its destination behind a URL shortener', weight: 15, evidence: apply });
+  }
+
+  if (HIDDEN_COMPANY.test(job.company.trim())) {
+    signals.push({ id: 'hidden-company', reason: 'Employer is not named', weight: 10, evidence: job.company });
+  }
+
+  if (job.salary?.currency === 'NGN' && toMonthlyAmount(job.salary) >= BAIT_MONTHLY_NGN
+    && !/\b(?:years?\s+of\s+experience|experience\s+of)\b/i.test(job.description)) {
+    signals.push({ id: 'bait-pay', reason: 'Unusually high pay with no experience required', weight: 15 });
+  }
+
+  const score = Math.min(100, signals.reduce((sum, signal) => sum + signal.weight, 0));
+  const level: RiskLevel = score >= getRiskHoldScore() ? 'high' : score >= MEDIUM_RISK_SCORE ? 'medium' : 'low';
+  return { score, level, signals, assessedAt: new Date().toISOString() };
+}
+
+/**
+ * Check whether a job should be held for manual review rather than posted.
+ * Jobs a reviewer has approved are never held again.
+ */
+export function needsReview(job: Pick<ScrapedJob, 'riskApprovedAt'>, risk: RiskAssessment): boolean {
+  return !job.riskApprovedAt && risk.level === 'high';
+}
@@ -0,0 +1,249 @@
+/**
+ * Posting schedule: the times of day (in the app timezone, see lib/timezone) when auto-post runs post jobs,
+ * how many jobs each slot posts, and quiet hours when nothing is posted. Weekdays and
+ * weekends have their own slots. QStash still calls /api/auto-post every few minutes;
+ * calls that don't fall in an open slot post nothing.
+ */
+
+import { redis } from './redis';
+import type { ScrapedJob } from './scraper';
+import { getRecentlyPostedJobs, getUnpostedJobs } from './jobQueue';
+import { getPostingSkipReason } from './excludedJobs';
+import { assessScamRisk, needsReview } from './scamRisk';
+import { rankJobs } from './ranking';
+import { addDays, localParts, localToInstant } from './timezone';
+
+export interface PostingSlot {
+  /** Local time the slot opens, HH:MM */
+  time: string;
+  /** Jobs posted in the slot */
+  jobs: number;
+}
+
+export interface PostingSchedule {
+  weekday: PostingSlot[];
+  weekend: PostingSlot[];
+  /** Local times (HH:MM) between which slots are silenced; may wrap past midnight */
+  quietHours: { start: string; end: string } | null;
+}
+
+/** A slot on a particular day */
+export interface ScheduledSlot extends PostingSlot {
+  /** Local date, YYYY-MM-DD */
+  date: string;
+  /** When the slot opens */
+  at: string;
+}
+
+/** The slot open now, with how many of its jobs have been posted */
+export interface OpenSlot extends ScheduledSlot {
+  posted: number;
+  remaining: number;
+}
+
+const SCHEDULE_KEY = 'posting:schedule';
+const SLOT_POSTS_KEY = (date: string, time: string) => `posting:slot:${date}:${time}`;
+
+/** A slot stays open this long (or until the next slot), so a failed or missed call can be retried */
+export const SLOT_WINDOW_MINUTES = 30;
+
+export const SCHEDULE_LIMITS = { slotsPerDay: 24, jobsPerSlot: 10 };
+
+export const DEFAULT_SCHEDULE: PostingSchedule = {
+  weekday: ['08:00', '10:00', '12:00', '14:00', '16:00', '18:00', '20:00'].map((time) => ({ time, jobs: 2 })),
+  weekend: ['10:00', '14:00', '18:00'].map((time) => ({ time, jobs: 2 })),
+  quietHours: { start: '22:00', end: '07:00' },
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Thrown when a schedule can't be saved as given */
+export class ScheduleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ScheduleError';
+  }
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+function isWeekend(date: string): boolean {
+  const day = new Date(`${date}T00:00:00Z`).getUTCDay();
+  return day === 0 || day === 6;
+}
+
+/**
+ * Check if a local time falls in the quiet hours
+ */
+export function isQuietTime(schedule: PostingSchedule, minutes: number): boolean {
+  if (!schedule.quietHours) return false;
+  const start = toMinutes(schedule.quietHours.start);
+  const end = toMinutes(schedule.quietHours.end);
+  return start <= end ? minutes >= start && minutes < end : minutes >= start || minutes < end;
+}
+
+/**
+ * The slots that post on a local date, in time order, without those in quiet hours
+ */
+function slotsOn(schedule: PostingSchedule, date: string): ScheduledSlot[] {
+  return (isWeekend(date) ? schedule.weekend : schedule.weekday)
+    .filter((slot) => !isQuietTime(schedule, toMinutes(slot.time)))
+    .sort((a, b) => a.time.localeCompare(b.time))
+    .map((slot) => ({ ...slot, date, at: localToInstant(date, toMinutes(slot.time)).toISOString() }));
+}
+
+/**
+ * Get the saved schedule, or the default one
+ */
+export async function getPostingSchedule(): Promise<{ schedule: PostingSchedule; saved: boolean }> {
+  const saved = await redis.get<PostingSchedule | string>(SCHEDULE_KEY);
+  if (!saved) return { schedule: DEFAULT_SCHEDULE, saved: false };
+  return { schedule: typeof saved === 'string' ? JSON.parse(saved) : saved, saved: true };
+}
+
+function validateTime(value: unknown, what: string): string {
+  const match = String(value ?? '').trim().match(/^(\d{1,2}):(\d{2})$/);
+  if (!match || Number(match[1]) > 23 || Number(match[2]) > 59) {
+    throw new ScheduleError(`${what} must be a time like 08:30`);
+  }
+  return `${match[1].padStart(2, '0')}:${match[2]}`;
+}
+
+function validateSlots(input: unknown, profile: string): PostingSlot[] {
+  if (!Array.isArray(input)) throw new ScheduleError(`${profile} slots must be a list`);
+  if (input.length > SCHEDULE_LIMITS.slotsPerDay) {
+    throw new ScheduleError(`${profile} can have at most ${SCHEDULE_LIMITS.slotsPerDay} slots`);
+  }
+
+  const slots = input.map((slot: Partial<PostingSlot>) => {
+    const time = validateTime(slot?.time, `${profile} slot time`);
+    const jobs = Math.floor(Number(slot?.jobs));
+    if (!(jobs >= 1 && jobs <= SCHEDULE_LIMITS.jobsPerSlot)) {
+      throw new ScheduleError(`${profile} slot ${time} must post 1-${SCHEDULE_LIMITS.jobsPerSlot} jobs`);
+    }
+    return { time, jobs };
+  });
+
+  const times = slots.map((s) => s.time);
+  const repeated = times.find((t, i) => times.indexOf(t) !== i);
+  if (repeated) throw new ScheduleError(`${profile} has two slots at ${repeated}`);
+  return slots.sort((a, b) => a.time.localeCompare(b.time));
+}
+
+/**
+ * Check a schedule from the dashboard
+ */
+export function validatePostingSchedule(input: Partial<PostingSchedule>): PostingSchedule {
+  const quiet = input.quietHours;
+  const quietHours = quiet
+    ? { start: validateTime(quiet.start, 'Quiet hours start'), end: validateTime(quiet.end, 'Quiet hours end') }
+    : null;
+  if (quietHours && quietHours.start === quietHours.end) {
+    throw new ScheduleError('Quiet hours must start and end at different times');
+  }
+  return {
+    weekday: validateSlots(input.weekday, 'Weekdays'),
+    weekend: validateSlots(input.weekend, 'Weekends'),
+    quietHours,
+  };
+}
+
+/** Save a schedule; slots take effect from the next auto-post call */
+export async function savePostingSchedule(input: Partial<PostingSchedule>): Promise<PostingSchedule> {
+  const schedule = validatePostingSchedule(input);
+  await redis.set(SCHEDULE_KEY, JSON.stringify(schedule));
+  return schedule;
+}
+
+/** Go back to the default schedule */
+export async function resetPostingSchedule(): Promise<void> {
+  await redis.del(SCHEDULE_KEY);
+}
+
+/**
+ * Get the slot open at a given time, if any. A slot is open from its start until
+ * SLOT_WINDOW_MINUTES later or the next slot, whichever comes first.
+ */
+export async function getOpenSlot(now: Date = new Date()): Promise<OpenSlot | null> {
+  const { schedule } = await getPostingSchedule();
+  const { date, minutes } = localParts(now);
+  const slots = slotsOn(schedule, date);
+
+  const index = slots.findLastIndex((slot) => toMinutes(slot.time) <= minutes);
+  if (index === -1) return null;
+  const slot = slots[index];
+  const next = slots[index + 1];
+  const closesAt = Math.min(toMinutes(slot.time) + SLOT_WINDOW_MINUTES, next ? toMinutes(next.time) : Infinity);
+  if (minutes >= closesAt) return null;
+
+  const posted = Number(await redis.get(SLOT_POSTS_KEY(date, slot.time))) || 0;
+  return { ...slot, posted, remaining: Math.max(0, slot.jobs - posted) };
+}
+
+/**
+ * Reserve up to `count` of a slot's posts before posting, so overlapping runs can't post past
+ * its job count: the count is added first, and whatever went over the slot's jobs is taken back.
+ * @returns Number of posts reserved (0 when the slot is already full)
+ */
+export async function reserveSlotPosts(slot: ScheduledSlot, count: number): Promise<number> {
+  if (count <= 0) return 0;
+  const key = SLOT_POSTS_KEY(slot.date, slot.time);
+  const pipeline = redis.pipeline();
+  pipeline.incrby(key, count);
+  pipeline.expire(key, 60 * 60 * 24 * 2);
+  const [total] = await pipeline.exec<[number, number]>();
+
+  const over = Math.min(count, Math.max(0, total - slot.jobs));
+  if (over > 0) await redis.decrby(key, over);
+  return count - over;
+}
+
+/**
+ * Give back reserved slot posts that weren't made (e.g. every platform failed), so later calls
+ * in the slot's window can retry them
+ */
+export async function releaseSlotPosts(slot: ScheduledSlot, count: number): Promise<void> {
+  if (count <= 0) return;
+  await redis.decrby(SLOT_POSTS_KEY(slot.date, slot.time), count);
+}
+
+/**
+ * Get the next slots, starting with the open one if it still has jobs to post
+ * (its job count is then what's left of it)
+ */
+export async function getUpcomingSlots(count: number, now: Date = new Date()): Promise<ScheduledSlot[]> {
+  const { schedule } = await getPostingSchedule();
+  const open = await getOpenSlot(now);
+  const upcoming: ScheduledSlot[] = open && open.remaining > 0 ? [{ ...open, jobs: open.remaining }] : [];
+
+  const today = localParts(now).date;
+  for (let day = 0; day < 8 && upcoming.length < count; day++) {
+    for (const slot of slotsOn(schedule, addDays(today, day))) {
+      if (Date.parse(slot.at) > now.getTime() && upcoming.length < count) upcoming.push(slot);
+    }
+  }
+  return upcoming;
+}
+
+/**
+ * Plan which queued jobs the next slots will post, using the same rules and ranking as
+ * auto-post. Jobs scraped before a slot opens can still change the plan.
+ */
+export async function planUpcomingPosts(slotCount: number): Promise<(ScheduledSlot & { planned: ScrapedJob[] })[]> {
+  const slots = await getUpcomingSlots(slotCount);
+  const total = slots.reduce((sum, slot) => sum + slot.jobs, 0);
+
+  const candidates = (await getUnpostedJobs()).filter((job) => !needsReview(job, assessScamRisk(job)) && !getPostingSkipReason(job));
+  const recentlyPosted = await getRecentlyPostedJobs(Date.now() - DAY_MS);
+  const ranked = rankJobs(candidates, total, recentlyPosted).slice(0, total);
+
+  let next = 0;
+  return slots.map((slot) => {
+    const planned = ranked.slice(next, next + slot.jobs).map((r) => r.job);
+    next += slot.jobs;
+    return { ...slot, planned };
+  });
+}
@@ -0,0 +1,163 @@
+/**
+ * Scrape run health checks - catches source markup changes that make the parsers
+ * fall back to defaults instead of failing loudly
+ */
+
+import type { ScrapedJob, SourceScrapeStats } from './scraper';
+import { redis } from './redis';
+import { sendAdminAlert } from './telegram';
+import { escapeHtml } from './utils';
+
+/** Default minimum share of fetched job pages that must parse into a job */
+const DEFAULT_MIN_PARSE_RATE = 0.7;
+
+/** Default maximum share of jobs that may use a default location or generated description */
+const DEFAULT_MAX_FALLBACK_RATE = 0.5;
+
+/** Sources with fewer parsed pages than this aren't judged on rates - too noisy */
+const MIN_SAMPLE_SIZE = 5;
+
+/** Default hours before a source that is still unhealthy is alerted about again */
+const DEFAULT_ALERT_REPEAT_HOURS = 12;
+
+/** When a source was last alerted about; set while it is unhealthy, removed once it recovers */
+const ALERT_KEY = (source: string) => `scrape:health:alerted:${source}`;
+
+/** Alert state outlives the repeat period so a source that stops running is forgotten eventually */
+const ALERT_TTL = 60 * 60 * 24 * 7;
+
+/** Field-completeness statistics for one source in a scrape run */
+export interface SourceHealth {
+  source: string;
+  label: string;
+  /** Job pages that were scraped or failed this run (known pages excluded) */
+  pagesParsed: number;
+  jobs: number;
+  /** Pages that yielded no job, e.g. because title or company couldn't be found */
+  missingTitleOrCompany: number;
+  defaultLocation: number;
+  defaultJobType: number;
+  fallbackDescription: number;
+  /** Threshold breaches; empty when the source looks healthy */
+  issues: string[];
+}
+
+export interface ScrapeHealthReport {
+  healthy: boolean;
+  sources: SourceHealth[];
+}
+
+function readRate(name: string, fallback: number): number {
+  const value = parseFloat(process.env[name] ?? '');
+  return value >= 0 && value <= 1 ? value : fallback;
+}
+
+function percent(count: number, total: number): string {
+  return `${Math.round((count / total) * 100)}%`;
+}
+
+/**
+ * Compute field-completeness statistics per source and flag sources below the thresholds
+ * (SCRAPE_HEALTH_MIN_PARSE_RATE, default 0.7; SCRAPE_HEALTH_MAX_FALLBACK_RATE, default 0.5)
+ */
+export function assessScrapeHealth(stats: SourceScrapeStats[], jobs: ScrapedJob[]): ScrapeHealthReport {
+  const minParseRate = readRate('SCRAPE_HEALTH_MIN_PARSE_RATE', DEFAULT_MIN_PARSE_RATE);
+  const maxFallbackRate = readRate('SCRAPE_HEALTH_MAX_FALLBACK_RATE', DEFAULT_MAX_FALLBACK_RATE);
+
+  const sources = stats.map((s): SourceHealth => {
+    const sourceJobs = jobs.filter((j) => j.source === s.source);
+    const countDefault = (field: string) => sourceJobs.filter((j) => j.fieldSources?.[field] === 'default').length;
+
+    const health: SourceHealth = {
+      source: s.source,
+      label: s.label,
+      pagesParsed: s.scraped + s.failed,
+      jobs: s.scraped,
+      missingTitleOrCompany: s.failed,
+      defaultLocation: countDefault('location'),
+      defaultJobType: countDefault('jobType'),
+      fallbackDescription: countDefault('description'),
+      issues: [],
+    };
+
+    if (s.error) {
+      health.issues.push(`listings failed: ${s.error}`);
+    } else if (s.found === 0) {
+      health.issues.push('no job links found on listings');
+    }
+
+    if (health.pagesParsed >= MIN_SAMPLE_SIZE) {
+      if (health.jobs / health.pagesParsed < minParseRate) {
+        health.issues.push(`only ${percent(health.jobs, health.pagesParsed)} of pages parsed into jobs`);
+      }
+      for (const [count, what] of [
+        [health.defaultLocation, 'default location'],
+        [health.fallbackDescription, 'fallback description'],
+      ] as const) {
+        if (health.jobs > 0 && count / health.jobs > maxFallbackRate) {
+          health.issues.push(`${percent(count, health.jobs)} of jobs use a ${what}`);
+        }
+      }
+    }
+
+    return health;
+  });
+
+  return { healthy: sources.every((s) => s.issues.length === 0), sources };
+}
+
+function getAlertRepeatMs(): number {
+  const hours = parseFloat(process.env.SCRAPE_HEALTH_ALERT_REPEAT_HOURS ?? '');
+  return (hours > 0 ? hours : DEFAULT_ALERT_REPEAT_HOURS) * 60 * 60 * 1000;
+}
+
+/**
+ * Read when each source was last alerted about (null for sources that were healthy)
+ */
+async function getLastAlerts(sources: string[]): Promise<(number | null)[]> {
+  try {
+    return await redis.mget<(number | null)[]>(...sources.map(ALERT_KEY));
+  } catch {
+    // Redis not configured or error - alert as if nothing was sent before
+    return sources.map(() => null);
+  }
+}
+
+/**
+ * Send a Telegram alert to the admin chat when sources fail their health checks.
+ * A source is reported when it becomes unhealthy, again every SCRAPE_HEALTH_ALERT_REPEAT_HOURS
+ * (default 12) while it stays unhealthy, and once when it recovers - not on every run.
+ */
+export async function sendScrapeHealthAlert(report: ScrapeHealthReport): Promise<void> {
+  if (report.sources.length === 0) return;
+
+  const now = Date.now();
+  const lastAlerts = await getLastAlerts(report.sources.map((s) => s.source));
+  const failing = report.sources.filter((s, i) => s.issues.length > 0 && (lastAlerts[i] === null || now - lastAlerts[i]! >= getAlertRepeatMs()));
+  const recovered = report.sources.filter((s, i) => s.issues.length === 0 && lastAlerts[i] !== null);
+  if (failing.length === 0 && recovered.length === 0) return;
+
+  const sections: string[] = [];
+  if (failing.length > 0) {
+    const lines = failing.map((s) => `<b>${escapeHtml(s.label)}</b>\n${s.issues.map((issue) => `- ${escapeHtml(issue)}`).join('\n')}`);
+    sections.push(`⚠️ <b>Scraper health check failed</b>\nSelectors may have broken.\n\n${lines.join('\n\n')}`);
+  }
+  if (recovered.length > 0) {
+    sections.push(`✅ <b>Recovered:</b> ${recovered.map((s) => escapeHtml(s.label)).join(', ')}`);
+  }
+
+  const result = await sendAdminAlert(sections.join('\n\n'));
+  if (!result.success) {
+    console.error('Failed to send scrape health alert:', result.error);
+    return;
+  }
+
+  try {
+    const pipeline = redis.pipeline();
+    for (const s of failing) pipeline.set(ALERT_KEY(s.source), now, { ex: ALERT_TTL });
+    for (const s of recovered) pipeline.del(ALERT_KEY(s.source));
+    await pipeline.exec();
+  } catch {
+    // Ignore state write errors - the next run alerts again
+  }
+}
@@ -0,0 +1,149 @@
+/**
+ * Saved scrape targets - which listings of each source the scraper reads (e.g. MyJobMag's
+ * Lagos or ICT listings), how many pages deep, and how many jobs per run.
+ * With no saved targets, every enabled source's latest listings are scraped.
+ */
+
+import crypto from 'crypto';
+import { redis } from './redis';
+import { getEnabledJobSources, getJobSource } from './sources';
+import { getMaxListingPages } from './sources/pagination';
+
+export interface ScrapeTarget {
+  id: string;
+  /** Shown in scrape reports and on the dashboard, e.g. "MyJobMag - Lagos" */
+  label: string;
+  /** Name of the job source whose adapter parses the listings */
+  source: string;
+  /** First listings page, e.g. https://www.myjobmag.com/jobs-location/lagos */
+  listingsUrl: string;
+  /** Listing pages to read per run */
+  maxPages: number;
+  /** Job pages to scrape per run */
+  maxJobs: number;
+  enabled: boolean;
+}
+
+/** Hash of target id -> ScrapeTarget JSON */
+const TARGETS_KEY = 'scrape:targets';
+
+/** Jobs per run for the built-in targets */
+export const DEFAULT_TARGET_MAX_JOBS = 30;
+
+export const TARGET_LIMITS = { maxPages: 10, maxJobs: 100 };
+
+/** Thrown when a target can't be saved as given */
+export class ScrapeTargetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ScrapeTargetError';
+  }
+}
+
+function hostOf(url: string): string {
+  return new URL(url).hostname.replace(/^www\./, '');
+}
+
+/**
+ * Built-in targets: the latest listings of every registered source
+ */
+export function defaultScrapeTargets(maxJobs: number = DEFAULT_TARGET_MAX_JOBS): ScrapeTarget[] {
+  return getEnabledJobSources().map((source) => ({
+    id: source.name,
+    label: source.label,
+    source: source.name,
+    listingsUrl: source.defaultListingsUrl,
+    maxPages: getMaxListingPages(),
+    maxJobs,
+    enabled: true,
+  }));
+}
+
+/**
+ * Get the saved targets in the order they were added, or the built-in ones when none are saved
+ */
+export async function getScrapeTargets(): Promise<{ targets: ScrapeTarget[]; saved: boolean }> {
+  const saved = await redis.hgetall<Record<string, ScrapeTarget | string>>(TARGETS_KEY);
+  if (!saved || Object.keys(saved).length === 0) {
+    return { targets: defaultScrapeTargets(), saved: false };
+  }
+  const targets = Object.values(saved).map((v) => (typeof v === 'string' ? JSON.parse(v) : v) as ScrapeTarget);
+  return { targets, saved: true };
+}
+
+/**
+ * Get the targets the next scrape run should read: enabled targets whose source is
+ * enabled (SCRAPE_SOURCES still switches whole sources off)
+ */
+export async function getEnabledScrapeTargets(): Promise<ScrapeTarget[]> {
+  const { targets } = await getScrapeTargets();
+  const sources = getEnabledJobSources().map((s) => s.name);
+  return targets.filter((t) => t.enabled && sources.includes(t.source));
+}
+
+function clamp(value: unknown, fallback: number, max: number): number {
+  const n = Math.floor(Number(value));
+  return n > 0 ? Math.min(n, max) : fallback;
+}
+
+/**
+ * Check a target from the dashboard and fill in defaults
+ */
+export function validateScrapeTarget(input: Partial<ScrapeTarget>): ScrapeTarget {
+  const source = getJobSource(String(input.source ?? ''));
+  if (!source) throw new ScrapeTargetError(`Unknown source "${input.source}"`);
+
+  const listingsUrl = String(input.listingsUrl ?? '').trim() || source.defaultListingsUrl;
+  let sameSite = false;
+  try {
+    sameSite = /^https?:$/.test(new URL(listingsUrl).protocol) && hostOf(listingsUrl) === hostOf(source.defaultListingsUrl);
+  } catch {
+    // Not a URL
+  }
+  if (!sameSite) {
+    throw new ScrapeTargetError(`Listings URL must be a ${source.label} page (${hostOf(source.defaultListingsUrl)})`);
+  }
+
+  const path = new URL(listingsUrl).pathname.replace(/\/$/, '');
+  return {
+    id: input.id || crypto.randomUUID().slice(0, 8),
+    label: String(input.label ?? '').trim() || `${source.label} ${path || '/'}`,
+    source: source.name,
+    listingsUrl,
+    maxPages: clamp(input.maxPages, getMaxListingPages(), TARGET_LIMITS.maxPages),
+    maxJobs: clamp(input.maxJobs, DEFAULT_TARGET_MAX_JOBS, TARGET_LIMITS.maxJobs),
+    enabled: input.enabled !== false,
+  };
+}
+
+/**
+ * Save a new or edited target. The first save also stores the built-in targets,
+ * so adding one target doesn't silently stop the others.
+ */
+export async function saveScrapeTarget(input: Partial<ScrapeTarget>): Promise<ScrapeTarget> {
+  const target = validateScrapeTarget(input);
+  const { targets, saved } = await getScrapeTargets();
+  if (!saved) {
+    for (const t of targets) {
+      await redis.hset(TARGETS_KEY, { [t.id]: JSON.stringify(t) });
+    }
+  }
+  await redis.hset(TARGETS_KEY, { [target.id]: JSON.stringify(target) });
+  return target;
+}
+
+/**
+ * Delete a target. Returns false when there was no such saved target.
+ */
+export async function deleteScrapeTarget(id: string): Promise<boolean> {
+  const { targets, saved } = await getScrapeTargets();
+  if (!saved) {
+    // Deleting a built-in target saves the rest
+    if (!targets.some((t) => t.id === id)) return false;
+    for (const t of targets.filter((t) => t.id !== id)) {
+      await redis.hset(TARGETS_KEY, { [t.id]: JSON.stringify(t) });
+    }
+    return true;
+  }
+  return (await redis.hdel(TARGETS_KEY, id)) > 0;
+}
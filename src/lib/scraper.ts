@@ -1,259 +1,323 @@
-import * as cheerio from 'cheerio';
-import crypto from 'crypto';
+import { getJobSource, JobSource } from './sources';
+import { generateJobId } from './sources/shared';
+import { forgetPage, PageUnchangedError, TimeBudgetExceededError, USER_AGENT } from './fetcher';
+import { getJob, getJobQueueStatuses, JobQueueStatus } from './jobQueue';
+import { isAllowedByRobots, RobotsDisallowedError } from './robots';
+import type { Salary } from './utils';
+import type { NormalizedLocation } from './locations';
+import type { JobCategoryId } from './categories';
+import type { ExperienceRange, Seniority } from './qualifications';
+import type { RiskAssessment } from './scamRisk';
+import { defaultScrapeTargets, ScrapeTarget } from './scrapeTargets';
+
+/** How a job field was filled: schema.org JSON-LD, HTML heuristics, or a fallback default */
+export type ExtractionMethod = 'json-ld' | 'html' | 'default';
 
 export interface ScrapedJob {
   id: string;
+  /** Name of the job source this was scraped from (e.g. "myjobmag") */
+  source: string;
   title: string;
   company: string;
   location: string;
+  /** `location` normalized against the gazetteer; several entries for multi-location jobs */
+  locations?: NormalizedLocation[];
   jobType: string;
   description: string;
   applyUrl: string;
-  sourceUrl: string;
+  /** The listing page; unset for jobs imported without one */
+  sourceUrl?: string;
   scrapedAt: string;
+  /** ISO date the listing was published, when the page states it */
+  datePosted?: string;
+  /** ISO date the listing stops accepting applications, from structured data */
+  validThrough?: string;
+  /** Application deadline (YYYY-MM-DD), from structured data or a "Deadline:" line */
+  deadline?: string;
+  /** Pay as stated on the page, e.g. "NGN 150000 - 250000 per month" */
+  salaryText?: string;
+  /** Normalized pay parsed from salaryText */
+  salary?: Salary;
+  /** Company page on the job board (e.g. MyJobMag /jobs-at/), used to look up the CompanyProfile */
+  companyUrl?: string;
+  /** Function/industry category from the classifier */
+  category?: JobCategoryId;
+  /** Years of experience asked for */
+  experienceYears?: ExperienceRange;
+  seniority?: Seniority;
+  /** Accepted qualifications, lowest first (e.g. ["HND", "B.Sc"]) */
+  education?: string[];
+  /** Professional certifications asked for (e.g. ["ICAN", "ACCA"]) */
+  certifications?: string[];
+  /** Scam risk assessment from the last scrape */
+  scamRisk?: RiskAssessment;
+  /** When a reviewer cleared this job after it was held for scam risk */
+  riskApprovedAt?: string;
+  /** Days this job may wait in the queue before it expires (defaults to QUEUE_MAX_AGE_DAYS) */
+  maxQueueDays?: number;
+  /** Which extraction method filled each field */
+  fieldSources?: Partial<Record<string, ExtractionMethod>>;
 }
 
-const BASE_URL = 'https://www.myjobmag.com';
-const USER_AGENT = 'CareerExplorerBot/1.0 (Job Aggregator; contact@example.com)';
+/** Per-source counts for a scrape run */
+export interface SourceScrapeStats {
+  source: string;
+  label: string;
+  /** Labels of the scrape targets read from this source */
+  targets: string[];
+  found: number;
+  scraped: number;
+  /** Job URLs not scraped (or cut short) because the run's time budget ran out */
+  skipped: number;
+  /** URLs robots.txt doesn't allow us to fetch */
+  blocked: string[];
+  /** Job URLs not fetched because the job is already queued or posted */
+  known: number;
+  /** Job pages unchanged since the last fetch (the stored job is reused when there is one) */
+  unchanged: number;
+  /** Job pages fetched that didn't yield a job (fetch error, or missing title or company) */
+  failed: number;
+  error?: string;
+}
 
-/**
- * Generate a unique ID for a job based on its URL
- */
-function generateJobId(url: string): string {
-  return crypto.createHash('md5').update(url).digest('hex').substring(0, 12);
+export interface ScrapeResult {
+  jobs: ScrapedJob[];
+  sources: SourceScrapeStats[];
+  /** True when the time budget ran out and only partial results were collected */
+  timedOut: boolean;
+  durationMs: number;
+  /** When the run's time budget ends (ms); follow-up work in the same request should stop by then */
+  deadline: number;
 }
 
-/**
- * Fetch HTML from a URL with proper headers
- */
-async function fetchPage(url: string): Promise<string> {
-  const response = await fetch(url, {
-    headers: {
-      'User-Agent': USER_AGENT,
-      'Accept': 'text/html,application/xhtml+xml',
-      'Accept-Language': 'en-US,en;q=0.9',
-    },
-  });
+/** Default number of job pages fetched at the same time (across all hosts) */
+const DEFAULT_CONCURRENCY = 4;
 
-  if (!response.ok) {
-    throw new Error(`Failed to fetch ${url}: ${response.status}`);
-  }
+/** Default time budget for a scrape run - leaves headroom under a 60s serverless limit */
+const DEFAULT_TIME_BUDGET_MS = 45000;
 
-  return response.text();
+function readPositiveInt(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] ?? '', 10);
+  return value > 0 ? value : fallback;
 }
 
 /**
- * Extract job URLs from the main listings page
+ * Run tasks with bounded concurrency until they finish or the deadline passes.
+ * No new tasks start after the deadline; tasks still in flight are abandoned (their fetches
+ * abort at the same deadline) and only the results collected so far are returned.
  */
-async function getJobUrls(listingsUrl: string = `${BASE_URL}/jobs`): Promise<string[]> {
-  const html = await fetchPage(listingsUrl);
-  const $ = cheerio.load(html);
-
-  const jobUrls: string[] = [];
-
-  // Find all job links - they follow the pattern /job/[slug]
-  $('a[href^="/job/"]').each((_, element) => {
-    const href = $(element).attr('href');
-    if (href && !href.includes('/job-application/')) {
-      const fullUrl = `${BASE_URL}${href}`;
-      if (!jobUrls.includes(fullUrl)) {
-        jobUrls.push(fullUrl);
+async function runWithinBudget<T>(
+  tasks: (() => Promise<T>)[],
+  concurrency: number,
+  deadline: number
+): Promise<{ results: T[]; timedOut: boolean }> {
+  const results: T[] = [];
+  let next = 0;
+  let timedOut = false;
+
+  const worker = async () => {
+    while (next < tasks.length) {
+      if (Date.now() >= deadline) {
+        timedOut = true;
+        return;
       }
+      const task = tasks[next++];
+      results.push(await task());
     }
+  };
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const budget = new Promise<void>((resolve) => {
+    timer = setTimeout(() => {
+      timedOut = true;
+      resolve();
+    }, Math.max(0, deadline - Date.now()));
   });
 
-  return jobUrls;
+  const workers = Array.from({ length: Math.min(concurrency, tasks.length) }, worker);
+  await Promise.race([Promise.all(workers), budget]);
+  clearTimeout(timer);
+
+  return { results: [...results], timedOut: timedOut || next < tasks.length };
 }
 
 /**
- * Scrape a single job page for details
+ * Collect job URLs from a source's targets, each capped at its maxJobs.
+ * Targets on the same site are crawled one after another, until the deadline.
  */
-async function scrapeJobPage(url: string): Promise<ScrapedJob | null> {
-  try {
-    const html = await fetchPage(url);
-    const $ = cheerio.load(html);
-
-    // Extract job title from h2 or title tag
-    let title = $('h2').first().text().trim();
-    if (!title) {
-      title = $('h1').first().text().trim();
-    }
-    if (!title) {
-      const pageTitle = $('title').text();
-      title = pageTitle.split(' at ')[0].trim();
-    }
-
-    // Extract company name - look for "at CompanyName" pattern or company links
-    let company = '';
-    const titleWithCompany = $('title').text();
-    const atMatch = titleWithCompany.match(/at\s+(.+?)(?:\s*[-|]|$)/i);
-    if (atMatch) {
-      company = atMatch[1].trim();
-    }
-
-    // Also try to find company from job listing structure
-    if (!company) {
-      $('a[href^="/jobs-at/"]').each((_, el) => {
-        const text = $(el).text().trim();
-        if (text && text.length > 1) {
-          company = text;
-          return false; // break
-        }
+async function getSourceJobUrls(
+  source: JobSource,
+  targets: ScrapeTarget[],
+  stats: SourceScrapeStats,
+  deadline: number
+): Promise<string[]> {
+  const jobUrls: string[] = [];
+  for (const target of targets) {
+    if (Date.now() >= deadline) break;
+    try {
+      const urls = await source.getJobUrls(target.maxJobs, {
+        listingsUrl: target.listingsUrl,
+        maxPages: target.maxPages,
+        // Built-in targets share the source's cursor, so existing crawls resume where they were
+        cursorId: target.id === source.name ? undefined : `${source.name}:${target.id}`,
+        deadline,
       });
-    }
-
-    // Extract location
-    let location = '';
-    $('a[href^="/jobs-location/"]').each((_, el) => {
-      const text = $(el).text().trim();
-      if (text) {
-        location = text;
-        return false; // break
-      }
-    });
-
-    // Extract job type
-    let jobType = '';
-    $('a[href^="/jobs-by-type/"]').each((_, el) => {
-      const text = $(el).text().trim();
-      if (text) {
-        jobType = text;
-        return false; // break
+      const added = urls.slice(0, target.maxJobs).filter((url) => !jobUrls.includes(url));
+      jobUrls.push(...added);
+      console.log(`Found ${added.length} new job URLs from ${target.label}`);
+    } catch (error) {
+      if (error instanceof TimeBudgetExceededError) break;
+      if (error instanceof RobotsDisallowedError) {
+        stats.blocked.push(error.url);
       }
-    });
-
-    // Extract apply email from Method of Application section
-    const fullText = $('body').text();
-    const methodMatch = fullText.match(/method\s+of\s+application[\s\S]*?([a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,})/i)
-      || fullText.match(/(?:send|email|apply)\s*(?:to|your\s+(?:cv|resume|application))?\s*[:\s]*([a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,})/i);
-    const applyEmail = methodMatch?.[1]?.trim() || '';
-
-    // Get apply URL - external link, or mailto if email found, else source URL
-    let applyUrl = url;
-    if (applyEmail) {
-      applyUrl = `mailto:${applyEmail}`;
-    } else {
-      $('a[href*="/job-application/"], a[href*="/apply-now/"]').each((_, el) => {
-        const href = $(el).attr('href');
-        if (href) {
-          applyUrl = href.startsWith('http') ? href : `${BASE_URL}${href}`;
-          return false; // break
-        }
-      });
-    }
-
-    // Extract structured job content: About, Responsibilities, Qualifications
-    let about = '';
-    let responsibilities = '';
-    let qualifications = '';
-
-    // About: company intro paragraph (before job title h2)
-    $('p').each((_, el) => {
-      const text = $(el).text().trim();
-      if (text && text.length > 30 && text.length < 400 && !/posted|deadline|save|email|type your/i.test(text)) {
-        about = text.replace(/\s*\[?Read more[^\]]*\]?/i, '').trim();
-        return false; // take first good paragraph
-      }
-    });
-
-    // Extract Responsibilities and Qualification & Experience from list items
-    const respItems: string[] = [];
-    const qualItems: string[] = [];
-
-    $('strong, b').each((_, el) => {
-      const header = $(el).text().trim();
-      if (/^responsibilities$/i.test(header)) {
-        $(el).nextAll('ul').first().find('li').each((__, li) => {
-          const t = $(li).text().trim();
-          if (t && t.length > 5 && !/check how your cv|build your cv/i.test(t)) respItems.push(t);
-        });
-      }
-      if (/^qualification\s*(&|and)\s*experience$/i.test(header) || /^requirements$/i.test(header)) {
-        $(el).nextAll('ul').first().find('li').each((__, li) => {
-          const t = $(li).text().trim();
-          if (t && t.length > 5 && !/check how your cv|build your cv/i.test(t)) qualItems.push(t);
-        });
-      }
-    });
-    responsibilities = respItems.join('\n');
-    qualifications = qualItems.join('\n');
-
-    // Fallback: regex extraction from full text if DOM structure differs
-    if (!responsibilities && !qualifications) {
-      const respMatch = fullText.match(/responsibilities\s*([\s\S]*?)(?=qualification|requirements|method\s+of\s+application|$)/i);
-      if (respMatch) responsibilities = respMatch[1].replace(/\n{3,}/g, '\n\n').trim().substring(0, 800);
-      const qualMatch = fullText.match(/(?:qualification\s*(?:&|and)\s*experience|requirements)\s*([\s\S]*?)(?=method\s+of\s+application|check how your cv|$)/i);
-      if (qualMatch) qualifications = qualMatch[1].replace(/\n{3,}/g, '\n\n').trim().substring(0, 500);
+      // A failing target shouldn't stop the others
+      console.error(`Error scraping ${target.label}:`, error);
+      stats.error = error instanceof Error ? error.message : 'Unknown error';
     }
+  }
+  stats.found = jobUrls.length;
+  return jobUrls;
+}
 
-    // Build description with section headers for parseJobDescription
-    const parts: string[] = [];
-    if (about) parts.push(`About the role:\n${about}`);
-    else parts.push(`About the role:\n${company} is hiring a ${title}.`);
-    if (responsibilities) parts.push(`Responsibilities:\n${responsibilities}`);
-    if (qualifications) parts.push(`Requirements:\n${qualifications}`);
-    let description = parts.join('\n\n');
-    if (!description.trim()) {
-      description = `${title} position at ${company}`;
-    }
+/**
+ * Drop URLs whose jobs are already queued today or posted, so their pages aren't fetched again
+ */
+async function filterKnownJobUrls(urls: string[], stats: SourceScrapeStats): Promise<string[]> {
+  let statuses: (JobQueueStatus | null)[];
+  try {
+    statuses = await getJobQueueStatuses(urls.map(generateJobId));
+  } catch {
+    // Redis not configured or error - scrape the pages anyway
+    return urls;
+  }
+  const unknown = urls.filter((_, i) => statuses[i] === null);
+  stats.known += urls.length - unknown.length;
+  return unknown;
+}
 
-    // Skip if we couldn't extract essential data
-    if (!title || !company) {
-      console.log(`Skipping job at ${url}: missing title or company`);
+/**
+ * Scrape a job page, reusing the stored job when the page hasn't changed since the last fetch.
+ * Validators are saved when a page is fetched, so a run that stopped before queueing its jobs
+ * leaves unchanged pages with no stored job; those pages are forgotten and scraped again.
+ * Throws TimeBudgetExceededError when the deadline passes first.
+ */
+async function scrapeJob(
+  source: JobSource,
+  url: string,
+  stats: SourceScrapeStats,
+  deadline: number,
+  refetch: boolean = true
+): Promise<ScrapedJob | null> {
+  try {
+    const job = await source.scrapeJobPage(url, deadline);
+    if (!job) stats.failed++;
+    return job;
+  } catch (error) {
+    if (error instanceof TimeBudgetExceededError) throw error;
+    if (!(error instanceof PageUnchangedError)) {
+      console.error(`Error scraping ${url}:`, error);
+      stats.failed++;
       return null;
     }
-
-    return {
-      id: generateJobId(url),
-      title,
-      company,
-      location: location || 'Nigeria',
-      jobType: jobType || 'Full Time',
-      description: description || `${title} position at ${company}`,
-      applyUrl,
-      sourceUrl: url,
-      scrapedAt: new Date().toISOString(),
-    };
-  } catch (error) {
-    console.error(`Error scraping ${url}:`, error);
-    return null;
+    const stored = await getJob(generateJobId(url)).catch(() => null);
+    if (stored || !refetch) {
+      stats.unchanged++;
+      return stored;
+    }
+    await forgetPage(url);
+    return scrapeJob(source, url, stats, deadline, false);
   }
 }
 
 /**
- * Scrape all jobs from the MyJobMag listings page
- * Respects robots.txt by only accessing allowed paths
+ * Scrape the latest jobs from every enabled job source
+ * @param limit Max number of jobs to scrape per source
  */
-export async function scrapeLatestJobs(limit: number = 50): Promise<ScrapedJob[]> {
-  console.log('Starting job scrape from MyJobMag...');
+export async function scrapeLatestJobs(limit: number = 50): Promise<ScrapeResult> {
+  return scrapeTargets(defaultScrapeTargets(limit));
+}
 
-  // Get job URLs from Today's jobs page (only jobs posted today on MyJobMag)
-  const TODAY_JOBS_URL = `${BASE_URL}/jobs-by-date/today`;
-  const jobUrls = await getJobUrls(TODAY_JOBS_URL);
-  console.log(`Found ${jobUrls.length} job URLs from today's listings`);
+/**
+ * Scrape jobs from the given targets (see scrapeTargets.ts), reporting stats per source.
+ * Job pages are fetched concurrently (SCRAPE_CONCURRENCY, default 4) with per-host rate limits;
+ * the run stops starting new pages once SCRAPE_TIME_BUDGET_MS (default 45s) is used up.
+ * Respects robots.txt: disallowed URLs are skipped and listed in each source's `blocked` stats.
+ * Jobs already queued or posted are not fetched, and unchanged pages are not re-parsed.
+ */
+export async function scrapeTargets(targets: ScrapeTarget[]): Promise<ScrapeResult> {
+  const startedAt = Date.now();
+  const deadline = startedAt + readPositiveInt('SCRAPE_TIME_BUDGET_MS', DEFAULT_TIME_BUDGET_MS);
+  const concurrency = readPositiveInt('SCRAPE_CONCURRENCY', DEFAULT_CONCURRENCY);
+
+  const sources = [...new Set(targets.map((t) => t.source))]
+    .map((name) => getJobSource(name))
+    .filter((source): source is JobSource => source !== undefined);
+  const targetsBySource = sources.map((source) => targets.filter((t) => t.source === source.name));
+  console.log(`Starting job scrape from ${targets.map((t) => t.label).join(', ')}...`);
+
+  const stats: SourceScrapeStats[] = sources.map((source, i) => ({
+    source: source.name,
+    label: source.label,
+    targets: targetsBySource[i].map((t) => t.label),
+    found: 0,
+    scraped: 0,
+    skipped: 0,
+    blocked: [],
+    known: 0,
+    unchanged: 0,
+    failed: 0,
+  }));
+
+  // Sources live on different hosts, so their listings can be crawled in parallel
+  const urlsBySource = await Promise.all(
+    sources.map(async (source, i) =>
+      filterKnownJobUrls(await getSourceJobUrls(source, targetsBySource[i], stats[i], deadline), stats[i])
+    )
+  );
+
+  const tasks = sources.flatMap((source, i) =>
+    urlsBySource[i].map((url) => async () => {
+      try {
+        // Check robots.txt here so blocked pages are reported rather than counted as failures
+        if (!(await isAllowedByRobots(url, USER_AGENT, deadline))) {
+          stats[i].blocked.push(url);
+          return { index: i, job: null };
+        }
+        return { index: i, job: await scrapeJob(source, url, stats[i], deadline) };
+      } catch {
+        // Robots lookups and page fetches only throw here once the time budget has run out
+        return { index: i, job: null, cutShort: true };
+      }
+    })
+  );
 
-  // Limit the number of jobs to scrape
-  const urlsToScrape = jobUrls.slice(0, limit);
+  const { results, timedOut } = await runWithinBudget(tasks, concurrency, deadline);
 
-  // Scrape each job with a small delay to be respectful
   const jobs: ScrapedJob[] = [];
-
-  for (const url of urlsToScrape) {
-    const job = await scrapeJobPage(url);
+  const completed = stats.map(() => 0);
+  for (const { index, job, cutShort } of results) {
+    if (cutShort) continue;
+    completed[index]++;
     if (job) {
       jobs.push(job);
+      stats[index].scraped++;
     }
-    // Small delay between requests (500ms)
-    await new Promise(resolve => setTimeout(resolve, 500));
   }
+  stats.forEach((s, i) => {
+    s.skipped = urlsBySource[i].length - completed[i];
+  });
 
-  console.log(`Successfully scraped ${jobs.length} jobs`);
-  return jobs;
+  const durationMs = Date.now() - startedAt;
+  const known = stats.reduce((sum, s) => sum + s.known, 0);
+  const unchanged = stats.reduce((sum, s) => sum + s.unchanged, 0);
+  console.log(`Successfully scraped ${jobs.length} jobs in ${durationMs}ms (${known} already known, ${unchanged} unchanged)${timedOut ? ' (time budget reached, partial results)' : ''}`);
+  return { jobs, sources: stats, timedOut, durationMs, deadline };
 }
 
 /**
  * Scrape a specific number of new jobs (for testing)
  */
 export async function scrapeNewJobs(count: number = 10): Promise<ScrapedJob[]> {
-  return scrapeLatestJobs(count);
+  const { jobs } = await scrapeLatestJobs(count);
+  return jobs;
 }
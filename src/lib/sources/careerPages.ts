@@ -0,0 +1,99 @@
+import * as cheerio from 'cheerio';
+import type { ScrapedJob } from '../scraper';
+import { fetchPage, PageUnchangedError, TimeBudgetExceededError } from '../fetcher';
+import type { JobSource, ListingOptions } from './types';
+import { extractJobPostingJsonLd } from './jsonLd';
+import {
+  buildDescription,
+  buildScrapedJob,
+  collectLinks,
+  findApplyEmail,
+  findDeadline,
+  findSalaryText,
+  firstText,
+  isSiteUrl,
+  labeledValue,
+  listItemsAfterHeader,
+} from './shared';
+
+export interface CareerPageConfig {
+  /** Source name stored on jobs, e.g. "careers-acme" */
+  name: string;
+  /** Company name used for every job on the page */
+  company: string;
+  /** Page listing the company's open positions */
+  listingsUrl: string;
+  /** CSS selector for links to individual job pages */
+  jobLinkSelector: string;
+  /** Default location when a job page doesn't state one */
+  location?: string;
+}
+
+/**
+ * Company career pages to scrape alongside the job boards.
+ * Add an entry here to start collecting a company's openings, e.g.
+ * { name: 'careers-acme', company: 'Acme Ltd', listingsUrl: 'https://acme.ng/careers', jobLinkSelector: 'a.job-link' }
+ */
+export const CAREER_PAGES: CareerPageConfig[] = [];
+
+/**
+ * Create a job source for a single company career page
+ */
+export function createCareerPageSource(config: CareerPageConfig): JobSource {
+  // Career pages list every opening on one page, so there is no pagination to follow
+  async function getJobUrls(_limit?: number, options: ListingOptions = {}): Promise<string[]> {
+    const listingsUrl = options.listingsUrl ?? config.listingsUrl;
+    const html = await fetchPage(listingsUrl, { deadline: options.deadline });
+    const $ = cheerio.load(html);
+    return collectLinks($, config.jobLinkSelector, listingsUrl);
+  }
+
+  function parseJobPage(html: string, url: string): ScrapedJob | null {
+    const $ = cheerio.load(html);
+
+    const title = firstText($, 'h1') || $('title').text().split(/[-|]/)[0].trim();
+    const company = config.company;
+    const fullText = $('body').text();
+    const location = labeledValue(fullText, 'Location') || config.location;
+    const jobType = labeledValue(fullText, '(?:Job|Employment) Type');
+
+    const applyEmail = findApplyEmail(fullText);
+    const applyUrl = applyEmail ? `mailto:${applyEmail}` : '';
+
+    const about = firstText($, 'main p, article p');
+    const responsibilities = listItemsAfterHeader($, /^(?:key\s+)?(?:responsibilities|what\s+you(?:'ll|\s+will)\s+do)/i).join('\n');
+    const qualifications = listItemsAfterHeader($, /^(?:requirements|qualifications|what\s+we(?:'re|\s+are)\s+looking\s+for)/i).join('\n');
+
+    return buildScrapedJob(config.name, url, extractJobPostingJsonLd($), {
+      title,
+      company,
+      location,
+      jobType,
+      description: buildDescription({ title, company, about, responsibilities, qualifications }),
+      applyUrl,
+      deadline: findDeadline(fullText),
+      salaryText: findSalaryText(fullText),
+    });
+  }
+
+  async function scrapeJobPage(url: string, deadline?: number): Promise<ScrapedJob | null> {
+    try {
+      const html = await fetchPage(url, { skipUnchanged: true, deadline });
+      return parseJobPage(html, url);
+    } catch (error) {
+      if (error instanceof PageUnchangedError || error instanceof TimeBudgetExceededError) throw error;
+      console.error(`Error scraping ${url}:`, error);
+      return null;
+    }
+  }
+
+  return {
+    name: config.name,
+    label: `${config.company} Careers`,
+    defaultListingsUrl: config.listingsUrl,
+    isJobUrl: (url) => isSiteUrl(url, new URL(config.listingsUrl).hostname.replace(/^www\./, '')),
+    getJobUrls,
+    parseJobPage,
+    scrapeJobPage,
+  };
+}
@@ -0,0 +1,55 @@
+import * as cheerio from 'cheerio';
+import type { CheerioAPI } from 'cheerio';
+import type { ScrapedJob } from '../scraper';
+import { extractJobPostingJsonLd } from './jsonLd';
+import {
+  buildDescription,
+  buildScrapedJob,
+  findApplyEmail,
+  findDeadline,
+  findSalaryText,
+  firstText,
+  labeledValue,
+  listItemsAfterHeader,
+} from './shared';
+
+/**
+ * Read a <meta> tag by property or name
+ */
+function metaContent($: CheerioAPI, key: string): string {
+  return ($(`meta[property="${key}"]`).attr('content') || $(`meta[name="${key}"]`).attr('content') || '').trim();
+}
+
+/**
+ * Parse a job page from a site without its own adapter (no network access).
+ * Uses schema.org JobPosting data when the page has it, otherwise Open Graph/meta tags and
+ * "Label: value" lines. Jobs are stored with the source "import:{host}".
+ */
+export function parseGenericJobPage(html: string, url: string): ScrapedJob | null {
+  const $ = cheerio.load(html);
+  const host = new URL(url).hostname.replace(/^www\./, '');
+
+  // "Job Title at Company" or "Job Title - Company" page titles are common
+  const pageTitle = metaContent($, 'og:title') || $('title').text().trim();
+  const titleMatch = pageTitle.match(/^(.+?)\s+(?:at|-|\||–)\s+(.+?)(?:\s+[-|–]\s+.*)?$/i);
+
+  const title = firstText($, 'h1') || titleMatch?.[1] || pageTitle;
+  const fullText = $('body').text();
+  const company = labeledValue(fullText, '(?:Company|Employer|Organi[sz]ation)') || titleMatch?.[2] || metaContent($, 'og:site_name');
+  const applyEmail = findApplyEmail(fullText);
+
+  const about = metaContent($, 'og:description') || metaContent($, 'description') || firstText($, 'main p, article p');
+  const responsibilities = listItemsAfterHeader($, /^(?:key\s+)?(?:responsibilities|duties|what\s+you(?:'ll|\s+will)\s+do)/i).join('\n');
+  const qualifications = listItemsAfterHeader($, /^(?:requirements|qualifications|what\s+we(?:'re|\s+are)\s+looking\s+for)/i).join('\n');
+
+  return buildScrapedJob(`import:${host}`, url, extractJobPostingJsonLd($), {
+    title,
+    company,
+    location: labeledValue(fullText, '(?:Job\\s+)?Location'),
+    jobType: labeledValue(fullText, '(?:Job|Employment) Type'),
+    description: buildDescription({ title, company, about, responsibilities, qualifications }),
+    applyUrl: applyEmail ? `mailto:${applyEmail}` : '',
+    deadline: findDeadline(fullText),
+    salaryText: findSalaryText(fullText),
+  });
+}
@@ -0,0 +1,94 @@
+import * as cheerio from 'cheerio';
+import type { ScrapedJob } from '../scraper';
+import { fetchPage, PageUnchangedError, TimeBudgetExceededError } from '../fetcher';
+import type { JobSource, ListingOptions } from './types';
+import { crawlListings } from './pagination';
+import { extractJobPostingJsonLd } from './jsonLd';
+import {
+  buildDescription,
+  buildScrapedJob,
+  findApplyEmail,
+  findDeadline,
+  findSalaryText,
+  firstText,
+  isSiteUrl,
+  labeledValue,
+  listItemsAfterHeader,
+} from './shared';
+
+const BASE_URL = 'https://www.hotnigerianjobs.com';
+
+/**
+ * Extract job URLs from the HotNigerianJobs home page (newest posts first) or the given listing, following pagination
+ */
+async function getJobUrls(limit?: number, options: ListingOptions = {}): Promise<string[]> {
+  // Job links follow the pattern /hotjobs/[id]/[slug].html
+  return crawlListings({
+    source: hotNigerianJobsSource.name,
+    startUrl: options.listingsUrl ?? BASE_URL,
+    linkSelector: 'a[href*="/hotjobs/"]',
+    limit,
+    maxPages: options.maxPages,
+    cursorId: options.cursorId,
+    deadline: options.deadline,
+  });
+}
+
+/**
+ * Parse a single HotNigerianJobs post into a ScrapedJob (no network access).
+ * Posts are titled "Job Title at Company Name" and list details as "Label: value" lines.
+ */
+function parseJobPage(html: string, url: string): ScrapedJob | null {
+  const $ = cheerio.load(html);
+
+  const heading = firstText($, 'h1, .jobheader');
+  const headingMatch = heading.match(/^(.+?)\s+at\s+(.+)$/i);
+  const fullText = $('body').text();
+
+  const title = labeledValue(fullText, 'Job Title') || headingMatch?.[1]?.trim() || heading;
+  const company = headingMatch?.[2]?.trim() || labeledValue(fullText, 'Company');
+  const location = labeledValue(fullText, 'Location');
+  const jobType = labeledValue(fullText, 'Job Type') || labeledValue(fullText, 'Employment Type');
+
+  const applyEmail = findApplyEmail(fullText);
+  const applyUrl = applyEmail ? `mailto:${applyEmail}` : '';
+
+  const about = firstText($, '.jobdesc p, .mycase4 p');
+  const responsibilities = listItemsAfterHeader($, /^(?:job\s+)?(?:responsibilities|description)/i).join('\n');
+  const qualifications = listItemsAfterHeader($, /^(?:requirements|qualifications?)/i).join('\n');
+
+  return buildScrapedJob(hotNigerianJobsSource.name, url, extractJobPostingJsonLd($), {
+    title,
+    company,
+    location,
+    jobType,
+    description: buildDescription({ title, company, about, responsibilities, qualifications }),
+    applyUrl,
+    deadline: findDeadline(fullText),
+    salaryText: findSalaryText(fullText),
+  });
+}
+
+/**
+ * Fetch and parse a single HotNigerianJobs post
+ */
+async function scrapeJobPage(url: string, deadline?: number): Promise<ScrapedJob | null> {
+  try {
+    const html = await fetchPage(url, { skipUnchanged: true, deadline });
+    return parseJobPage(html, url);
+  } catch (error) {
+    if (error instanceof PageUnchangedError || error instanceof TimeBudgetExceededError) throw error;
+    console.error(`Error scraping ${url}:`, error);
+    return null;
+  }
+}
+
+export const hotNigerianJobsSource: JobSource = {
+  name: 'hotnigerianjobs',
+  label: 'HotNigerianJobs',
+  defaultListingsUrl: BASE_URL,
+  isJobUrl: (url) => isSiteUrl(url, 'hotnigerianjobs.com', '/hotjobs/'),
+  getJobUrls,
+  parseJobPage,
+  scrapeJobPage,
+};
@@ -0,0 +1,49 @@
+/**
+ * Registry of job sources the scraper can read from
+ */
+
+import type { JobSource } from './types';
+import { myJobMagSource } from './myjobmag';
+import { jobbermanSource } from './jobberman';
+import { hotNigerianJobsSource } from './hotNigerianJobs';
+import { CAREER_PAGES, createCareerPageSource } from './careerPages';
+
+export type { JobSource } from './types';
+
+const JOB_SOURCES: JobSource[] = [
+  myJobMagSource,
+  jobbermanSource,
+  hotNigerianJobsSource,
+  ...CAREER_PAGES.map(createCareerPageSource),
+];
+
+/**
+ * Get all registered job sources
+ */
+export function getAllJobSources(): JobSource[] {
+  return JOB_SOURCES;
+}
+
+/**
+ * Get a job source by name
+ */
+export function getJobSource(name: string): JobSource | undefined {
+  return JOB_SOURCES.find((source) => source.name === name);
+}
+
+/**
+ * Find the source whose job pages include the given URL
+ */
+export function findJobSourceForUrl(url: string): JobSource | undefined {
+  return JOB_SOURCES.find((source) => source.isJobUrl(url));
+}
+
+/**
+ * Get the sources enabled for scraping.
+ * SCRAPE_SOURCES is a comma-separated list of source names; all sources run when it's unset.
+ */
+export function getEnabledJobSources(): JobSource[] {
+  const enabled = process.env.SCRAPE_SOURCES?.split(',').map((s) => s.trim().toLowerCase()).filter(Boolean);
+  if (!enabled || enabled.length === 0) return JOB_SOURCES;
+  return JOB_SOURCES.filter((source) => enabled.includes(source.name));
+}
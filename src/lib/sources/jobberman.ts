@@ -0,0 +1,94 @@
+import * as cheerio from 'cheerio';
+import type { ScrapedJob } from '../scraper';
+import { fetchPage, PageUnchangedError, TimeBudgetExceededError } from '../fetcher';
+import type { JobSource, ListingOptions } from './types';
+import { crawlListings } from './pagination';
+import { extractJobPostingJsonLd } from './jsonLd';
+import {
+  buildDescription,
+  buildScrapedJob,
+  findApplyEmail,
+  findDeadline,
+  findSalaryText,
+  firstText,
+  isSiteUrl,
+  listItemsAfterHeader,
+} from './shared';
+
+const BASE_URL = 'https://www.jobberman.com';
+
+/** Newest listings first */
+const LATEST_JOBS_URL = `${BASE_URL}/jobs?sort=recent`;
+
+/**
+ * Extract job URLs from the Jobberman listings, following pagination
+ */
+async function getJobUrls(limit?: number, options: ListingOptions = {}): Promise<string[]> {
+  // Job links follow the pattern /listings/[slug]
+  return crawlListings({
+    source: jobbermanSource.name,
+    startUrl: options.listingsUrl ?? LATEST_JOBS_URL,
+    linkSelector: 'a[href*="/listings/"]',
+    limit,
+    maxPages: options.maxPages,
+    cursorId: options.cursorId,
+    deadline: options.deadline,
+  });
+}
+
+/**
+ * Parse a single Jobberman job page into a ScrapedJob (no network access)
+ */
+function parseJobPage(html: string, url: string): ScrapedJob | null {
+  const $ = cheerio.load(html);
+
+  const title = firstText($, 'h1');
+  const company = firstText($, 'a[href*="/company/"], h2');
+
+  // Location and job type are shown as links to filtered listings
+  const location = firstText($, 'a[href*="location="], a[href*="/jobs-in-"]');
+  const jobType = firstText($, 'a[href*="job_type="], a[href*="/full-time"], a[href*="/contract"]');
+
+  const fullText = $('body').text();
+  const applyEmail = findApplyEmail(fullText);
+  const applyUrl = applyEmail ? `mailto:${applyEmail}` : '';
+
+  const about = firstText($, 'article p, main p');
+  const responsibilities = listItemsAfterHeader($, /^(?:responsibilities|job\s+summary|duties)/i).join('\n');
+  const qualifications = listItemsAfterHeader($, /^(?:requirements|qualifications|minimum\s+qualification)/i).join('\n');
+
+  return buildScrapedJob(jobbermanSource.name, url, extractJobPostingJsonLd($), {
+    title,
+    company,
+    location,
+    jobType,
+    description: buildDescription({ title, company, about, responsibilities, qualifications }),
+    applyUrl,
+    deadline: findDeadline(fullText),
+    salaryText: findSalaryText(fullText),
+  });
+}
+
+/**
+ * Fetch and parse a single Jobberman job page
+ */
+async function scrapeJobPage(url: string, deadline?: number): Promise<ScrapedJob | null> {
+  try {
+    const html = await fetchPage(url, { skipUnchanged: true, deadline });
+    return parseJobPage(html, url);
+  } catch (error) {
+    if (error instanceof PageUnchangedError || error instanceof TimeBudgetExceededError) throw error;
+    console.error(`Error scraping ${url}:`, error);
+    return null;
+  }
+}
+
+export const jobbermanSource: JobSource = {
+  name: 'jobberman',
+  label: 'Jobberman',
+  defaultListingsUrl: LATEST_JOBS_URL,
+  isJobUrl: (url) => isSiteUrl(url, 'jobberman.com', '/listings/'),
+  getJobUrls,
+  parseJobPage,
+  scrapeJobPage,
+};
@@ -0,0 +1,164 @@
+/**
+ * schema.org JobPosting extraction from JSON-LD script tags
+ */
+
+import * as cheerio from 'cheerio';
+import type { CheerioAPI } from 'cheerio';
+import type { ExtractedJobFields } from './shared';
+
+type JsonObject = Record<string, unknown>;
+
+/** schema.org employmentType values mapped to the labels used in posts */
+const EMPLOYMENT_TYPES: Record<string, string> = {
+  FULL_TIME: 'Full Time',
+  PART_TIME: 'Part Time',
+  CONTRACTOR: 'Contract',
+  TEMPORARY: 'Temporary',
+  INTERN: 'Internship',
+  VOLUNTEER: 'Volunteer',
+  PER_DIEM: 'Per Diem',
+};
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function asArray(value: unknown): unknown[] {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function asText(value: unknown): string {
+  if (typeof value === 'string') return value.trim();
+  if (typeof value === 'number') return String(value);
+  if (isObject(value) && typeof value.name === 'string') return value.name.trim();
+  return '';
+}
+
+/** Flatten JSON-LD payloads (arrays and @graph containers) into individual nodes */
+function flattenNodes(value: unknown): JsonObject[] {
+  return asArray(value).flatMap((node) => {
+    if (!isObject(node)) return [];
+    return [node, ...flattenNodes(node['@graph'])];
+  });
+}
+
+function isJobPosting(node: JsonObject): boolean {
+  return asArray(node['@type']).some((t) => t === 'JobPosting');
+}
+
+/** Convert an HTML description into plain text, keeping paragraph and list breaks */
+export function htmlToText(html: string): string {
+  const $ = cheerio.load(
+    html
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<\/(?:p|div|h[1-6]|ul|ol)>/gi, '\n\n')
+      .replace(/<li[^>]*>/gi, '\n- ')
+  );
+  return $.root()
+    .text()
+    .split('\n')
+    .map((line) => line.replace(/[ \t]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/** Normalize a schema.org date to ISO format; empty string when unparseable */
+function toIsoDate(value: unknown): string {
+  const text = asText(value);
+  if (!text) return '';
+  const date = new Date(text);
+  return isNaN(date.getTime()) ? '' : date.toISOString();
+}
+
+/**
+ * The calendar day a schema.org date names. An ISO date keeps its own day, since converting
+ * e.g. "2026-10-30T00:00+01:00" to UTC would move it to the day before.
+ */
+function toDeadlineDate(value: unknown): string {
+  const day = asText(value).match(/^\d{4}-\d{2}-\d{2}/);
+  return day ? day[0] : toIsoDate(value).split('T')[0];
+}
+
+function formatLocation(place: unknown): string {
+  if (!isObject(place)) return asText(place);
+  const address = place.address;
+  if (typeof address === 'string') return address.trim();
+  if (!isObject(address)) return asText(place);
+  const parts = [address.addressLocality, address.addressRegion, address.addressCountry]
+    .map(asText)
+    .filter(Boolean);
+  return Array.from(new Set(parts)).join(', ');
+}
+
+function formatLocations(node: JsonObject): string {
+  const locations = asArray(node.jobLocation).map(formatLocation).filter(Boolean);
+  if (node.jobLocationType === 'TELECOMMUTE') locations.push('Remote');
+  return Array.from(new Set(locations)).join(' / ');
+}
+
+function formatEmploymentType(value: unknown): string {
+  const types = asArray(value)
+    .map((t) => asText(t).toUpperCase().replace(/[\s-]+/g, '_'))
+    .map((t) => EMPLOYMENT_TYPES[t])
+    .filter(Boolean);
+  return Array.from(new Set(types)).join(', ');
+}
+
+/** Format a MonetaryAmount as text, e.g. "NGN 150000 - 250000 per month" */
+function formatSalary(value: unknown): string {
+  if (typeof value === 'number' || typeof value === 'string') return asText(value);
+  if (!isObject(value)) return '';
+  const currency = asText(value.currency);
+  const amount = value.value;
+  let range = '';
+  let unit = '';
+  if (isObject(amount)) {
+    const min = asText(amount.minValue);
+    const max = asText(amount.maxValue);
+    range = min && max && min !== max ? `${min} - ${max}` : min || max || asText(amount.value);
+    unit = asText(amount.unitText);
+  } else {
+    range = asText(amount);
+  }
+  if (!range) return '';
+  return [currency, range, unit ? `per ${unit.toLowerCase()}` : ''].filter(Boolean).join(' ');
+}
+
+/**
+ * Extract job fields from the first schema.org JobPosting embedded in the page.
+ * Only fields present in the structured data are returned.
+ */
+export function extractJobPostingJsonLd($: CheerioAPI): Partial<ExtractedJobFields> {
+  let posting: JsonObject | undefined;
+
+  $('script[type="application/ld+json"]').each((_, el) => {
+    try {
+      const nodes = flattenNodes(JSON.parse($(el).text()));
+      posting = nodes.find(isJobPosting);
+    } catch {
+      // Ignore malformed JSON-LD blocks
+    }
+    return posting ? false : undefined; // break once found
+  });
+
+  if (!posting) return {};
+
+  const fields: Partial<ExtractedJobFields> = {
+    title: asText(posting.title) || asText(posting.name),
+    company: asText(posting.hiringOrganization),
+    location: formatLocations(posting),
+    jobType: formatEmploymentType(posting.employmentType),
+    description: typeof posting.description === 'string' ? htmlToText(posting.description) : '',
+    datePosted: toIsoDate(posting.datePosted),
+    validThrough: toIsoDate(posting.validThrough),
+    deadline: toDeadlineDate(posting.validThrough),
+    salaryText: formatSalary(posting.baseSalary),
+  };
+
+  // Drop empty values so heuristics can fill them
+  return Object.fromEntries(
+    Object.entries(fields).filter(([, value]) => value)
+  ) as Partial<ExtractedJobFields>;
+}
@@ -0,0 +1,153 @@
+import * as cheerio from 'cheerio';
+import type { ScrapedJob } from '../scraper';
+import { fetchPage, PageUnchangedError, TimeBudgetExceededError } from '../fetcher';
+import type { JobSource, ListingOptions } from './types';
+import { crawlListings } from './pagination';
+import { extractJobPostingJsonLd } from './jsonLd';
+import {
+  buildDescription,
+  buildScrapedJob,
+  findApplyEmail,
+  findDeadline,
+  findSalaryText,
+  firstText,
+  isSiteUrl,
+  listItemsAfterHeader,
+  resolveUrl,
+} from './shared';
+
+const BASE_URL = 'https://www.myjobmag.com';
+
+/** Today's jobs page (only jobs posted today on MyJobMag) */
+const TODAY_JOBS_URL = `${BASE_URL}/jobs-by-date/today`;
+
+/**
+ * Extract job URLs from MyJobMag's listings (today's jobs unless another listing such as
+ * /jobs-location/lagos is given), following pagination
+ */
+async function getJobUrls(limit?: number, options: ListingOptions = {}): Promise<string[]> {
+  // Find all job links - they follow the pattern /job/[slug]
+  return crawlListings({
+    source: myJobMagSource.name,
+    startUrl: options.listingsUrl ?? TODAY_JOBS_URL,
+    linkSelector: 'a[href^="/job/"]',
+    filter: (url) => !url.includes('/job-application/'),
+    limit,
+    maxPages: options.maxPages,
+    cursorId: options.cursorId,
+    deadline: options.deadline,
+  });
+}
+
+/**
+ * Parse a single MyJobMag job page into a ScrapedJob (no network access)
+ */
+function parseJobPage(html: string, url: string): ScrapedJob | null {
+  const $ = cheerio.load(html);
+
+  // Extract job title from h2 or title tag
+  let title = $('h2').first().text().trim();
+  if (!title) {
+    title = $('h1').first().text().trim();
+  }
+  if (!title) {
+    const pageTitle = $('title').text();
+    title = pageTitle.split(' at ')[0].trim();
+  }
+
+  // Extract company name - look for "at CompanyName" pattern or company links
+  let company = '';
+  const titleWithCompany = $('title').text();
+  const atMatch = titleWithCompany.match(/at\s+(.+?)(?:\s*[-|]|$)/i);
+  if (atMatch) {
+    company = atMatch[1].trim();
+  }
+
+  // Also try to find company from job listing structure
+  if (!company) {
+    company = firstText($, 'a[href^="/jobs-at/"]');
+  }
+
+  // Company profile page, enriched separately into a CompanyProfile
+  const companyHref = $('a[href^="/jobs-at/"]').first().attr('href');
+  const companyUrl = companyHref ? resolveUrl(companyHref, url) : '';
+
+  const location = firstText($, 'a[href^="/jobs-location/"]');
+  const jobType = firstText($, 'a[href^="/jobs-by-type/"]');
+
+  // Extract apply email from Method of Application section
+  const fullText = $('body').text();
+  const applyEmail = findApplyEmail(fullText);
+
+  // Get apply URL - external link, or mailto if email found (source URL is the default)
+  let applyUrl = '';
+  if (applyEmail) {
+    applyUrl = `mailto:${applyEmail}`;
+  } else {
+    $('a[href*="/job-application/"], a[href*="/apply-now/"]').each((_, el) => {
+      const href = $(el).attr('href');
+      if (href) {
+        applyUrl = href.startsWith('http') ? href : `${BASE_URL}${href}`;
+        return false; // break
+      }
+    });
+  }
+
+  // About: company intro paragraph (before job title h2)
+  let about = '';
+  $('p').each((_, el) => {
+    const text = $(el).text().trim();
+    if (text && text.length > 30 && text.length < 400 && !/posted|deadline|save|email|type your/i.test(text)) {
+      about = text.replace(/\s*\[?Read more[^\]]*\]?/i, '').trim();
+      return false; // take first good paragraph
+    }
+  });
+
+  // Extract Responsibilities and Qualification & Experience from list items
+  let responsibilities = listItemsAfterHeader($, /^responsibilities$/i).join('\n');
+  let qualifications = listItemsAfterHeader($, /^(?:qualification\s*(?:&|and)\s*experience|requirements)$/i).join('\n');
+
+  // Fallback: regex extraction from full text if DOM structure differs
+  if (!responsibilities && !qualifications) {
+    const respMatch = fullText.match(/responsibilities\s*([\s\S]*?)(?=qualification|requirements|method\s+of\s+application|$)/i);
+    if (respMatch) responsibilities = respMatch[1].replace(/\n{3,}/g, '\n\n').trim().substring(0, 800);
+    const qualMatch = fullText.match(/(?:qualification\s*(?:&|and)\s*experience|requirements)\s*([\s\S]*?)(?=method\s+of\s+application|check how your cv|$)/i);
+    if (qualMatch) qualifications = qualMatch[1].replace(/\n{3,}/g, '\n\n').trim().substring(0, 500);
+  }
+
+  return buildScrapedJob(myJobMagSource.name, url, extractJobPostingJsonLd($), {
+    title,
+    company,
+    location,
+    jobType,
+    description: buildDescription({ title, company, about, responsibilities, qualifications }),
+    applyUrl,
+    deadline: findDeadline(fullText),
+    salaryText: findSalaryText(fullText),
+    companyUrl,
+  });
+}
+
+/**
+ * Fetch and parse a single MyJobMag job page
+ */
+async function scrapeJobPage(url: string, deadline?: number): Promise<ScrapedJob | null> {
+  try {
+    const html = await fetchPage(url, { skipUnchanged: true, deadline });
+    return parseJobPage(html, url);
+  } catch (error) {
+    if (error instanceof PageUnchangedError || error instanceof TimeBudgetExceededError) throw error;
+    console.error(`Error scraping ${url}:`, error);
+    return null;
+  }
+}
+
+export const myJobMagSource: JobSource = {
+  name: 'myjobmag',
+  label: 'MyJobMag',
+  defaultListingsUrl: TODAY_JOBS_URL,
+  isJobUrl: (url) => isSiteUrl(url, 'myjobmag.com', '/job/'),
+  getJobUrls,
+  parseJobPage,
+  scrapeJobPage,
+};
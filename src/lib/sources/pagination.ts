@@ -0,0 +1,148 @@
+/**
+ * Paginated, resumable crawling of job board listings
+ */
+
+import * as cheerio from 'cheerio';
+import type { CheerioAPI } from 'cheerio';
+import { fetchPage, TimeBudgetExceededError } from '../fetcher';
+import { redis } from '../redis';
+import { localDateKey } from '../timezone';
+import { collectLinks, resolveUrl } from './shared';
+
+/** Default number of listing pages to read per scrape run */
+const DEFAULT_MAX_PAGES = 3;
+
+const CURSOR_KEY = (source: string) => `crawl:cursor:${source}`;
+
+/** Where the next scrape run should resume a source's listings */
+interface CrawlCursor {
+  date: string;
+  /** Next listings page to read; empty when the last page was reached */
+  nextUrl: string;
+  /** Job links already found but left over when the run's limit was reached */
+  pending?: string[];
+}
+
+export interface ListingCrawlOptions {
+  /** Source name, used to key the crawl cursor */
+  source: string;
+  /** First listings page */
+  startUrl: string;
+  /** CSS selector for job links on each listings page */
+  linkSelector: string;
+  /** Optional extra filter for job URLs */
+  filter?: (url: string) => boolean;
+  /** Stop once this many job URLs have been collected */
+  limit?: number;
+  /** Listing pages to read (defaults to getMaxListingPages()) */
+  maxPages?: number;
+  /** Cursor key suffix when one source is crawled from several listings (defaults to the source name) */
+  cursorId?: string;
+  /** Time (ms) by which crawling must stop; the cursor is saved at the page that wasn't read */
+  deadline?: number;
+}
+
+/**
+ * Get the max number of listing pages to read per run (SCRAPE_MAX_PAGES, default 3)
+ */
+export function getMaxListingPages(): number {
+  const value = parseInt(process.env.SCRAPE_MAX_PAGES ?? '', 10);
+  return value > 0 ? value : DEFAULT_MAX_PAGES;
+}
+
+/**
+ * Find the "next page" link on a listings page
+ */
+function findNextPageUrl($: CheerioAPI, currentUrl: string): string {
+  const rel = $('link[rel="next"], a[rel="next"]').first().attr('href');
+  if (rel) return resolveUrl(rel, currentUrl);
+
+  let next = '';
+  $('a[href]').each((_, el) => {
+    const text = $(el).text().replace(/\s+/g, ' ').trim();
+    if (/^(?:next(?:\s+page)?|›|»|next\s*[›»])$/i.test(text)) {
+      next = resolveUrl($(el).attr('href')!, currentUrl);
+      return false; // break
+    }
+  });
+  return next;
+}
+
+/**
+ * Read a crawl cursor, or null when there is none or Redis is unavailable
+ */
+async function getCursor(cursorKey: string): Promise<CrawlCursor | null> {
+  try {
+    return await redis.get<CrawlCursor>(cursorKey);
+  } catch (error) {
+    console.error(`Error reading crawl cursor ${cursorKey}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Crawl listing pages up to maxPages (or getMaxListingPages()) deep, starting where the previous run stopped.
+ * The cursor is kept per source (or cursorId) and day, with the links left over when the limit was
+ * reached partway through a page; those are returned first next run. It is cleared once the last
+ * page and its links are used up, so the following run starts again from page one.
+ */
+export async function crawlListings(options: ListingCrawlOptions): Promise<string[]> {
+  const { source, startUrl, linkSelector, filter, limit, deadline = Infinity } = options;
+  const today = localDateKey();
+  const cursorKey = CURSOR_KEY(options.cursorId ?? source);
+
+  const cursor = await getCursor(cursorKey);
+  const resuming = !!cursor && cursor.date === today && (!!cursor.nextUrl || !!cursor.pending?.length);
+  let pageUrl = resuming ? cursor.nextUrl : startUrl;
+
+  const maxPages = options.maxPages ?? getMaxListingPages();
+  const jobUrls: string[] = [];
+  const leftover: string[] = [];
+  const visited = new Set<string>();
+  let pagesCrawled = 0;
+
+  const collect = (urls: string[]) => {
+    for (const url of urls) {
+      if (jobUrls.includes(url) || leftover.includes(url)) continue;
+      if (limit && jobUrls.length >= limit) leftover.push(url);
+      else jobUrls.push(url);
+    }
+  };
+
+  if (resuming) collect(cursor.pending ?? []);
+
+  while (pageUrl && pagesCrawled < maxPages && !visited.has(pageUrl) && !(limit && jobUrls.length >= limit)) {
+    let html: string;
+    try {
+      html = await fetchPage(pageUrl, { deadline });
+    } catch (error) {
+      // Out of time: keep what was found and resume at this page next run
+      if (error instanceof TimeBudgetExceededError) break;
+      throw error;
+    }
+    visited.add(pageUrl);
+    const $ = cheerio.load(html);
+    pagesCrawled++;
+
+    collect(collectLinks($, linkSelector, pageUrl, filter));
+    pageUrl = findNextPageUrl($, pageUrl);
+  }
+
+  const resumeUrl = pageUrl && !visited.has(pageUrl) ? pageUrl : '';
+  try {
+    if (resumeUrl || leftover.length > 0) {
+      const next: CrawlCursor = { date: today, nextUrl: resumeUrl, ...(leftover.length > 0 && { pending: leftover }) };
+      await redis.set(cursorKey, next, { ex: 60 * 60 * 24 });
+    } else {
+      await redis.del(cursorKey);
+    }
+  } catch (error) {
+    console.error(`Error saving crawl cursor ${cursorKey}:`, error);
+  }
+
+  const resumeNote = resumeUrl || leftover.length > 0
+    ? `, next run resumes with ${leftover.length} leftover link(s)${resumeUrl ? ` then ${resumeUrl}` : ''}`
+    : '';
+  console.log(`Crawled ${pagesCrawled} listing page(s) for ${source}${resumeNote}`);
+  return jobUrls;
+}
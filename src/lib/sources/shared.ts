@@ -0,0 +1,258 @@
+/**
+ * Helpers shared by the job source adapters
+ */
+
+import crypto from 'crypto';
+import type { CheerioAPI } from 'cheerio';
+import type { ExtractionMethod, ScrapedJob } from '../scraper';
+import { parseDeadlineDate, parseSalary } from '../utils';
+import { normalizeLocations } from '../locations';
+import { classifyJob } from '../categories';
+import { extractQualifications } from '../qualifications';
+
+/** Job fields an adapter can extract from a page */
+export interface ExtractedJobFields {
+  title: string;
+  company: string;
+  location: string;
+  jobType: string;
+  description: string;
+  applyUrl: string;
+  datePosted: string;
+  validThrough: string;
+  deadline: string;
+  salaryText: string;
+  /** The board's page about the hiring company */
+  companyUrl: string;
+}
+
+const EXTRACTED_FIELDS: (keyof ExtractedJobFields)[] = [
+  'title',
+  'company',
+  'location',
+  'jobType',
+  'description',
+  'applyUrl',
+  'datePosted',
+  'validThrough',
+  'deadline',
+  'salaryText',
+  'companyUrl',
+];
+
+/**
+ * Generate a unique ID for a job based on its URL
+ */
+export function generateJobId(url: string): string {
+  return crypto.createHash('md5').update(url).digest('hex').substring(0, 12);
+}
+
+/**
+ * Resolve a (possibly relative) href against the page it was found on.
+ * Returns an empty string for hrefs that are not valid URLs.
+ */
+export function resolveUrl(href: string, baseUrl: string): string {
+  try {
+    return new URL(href, baseUrl).toString();
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Check whether a URL is on the given site (ignoring "www.") with a path starting with the prefix
+ */
+export function isSiteUrl(url: string, host: string, pathPrefix: string = '/'): boolean {
+  try {
+    const { hostname, pathname } = new URL(url);
+    return hostname.replace(/^www\./, '') === host && pathname.startsWith(pathPrefix);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Get the text of the first element matching the selector that has non-empty text
+ */
+export function firstText($: CheerioAPI, selector: string): string {
+  let text = '';
+  $(selector).each((_, el) => {
+    const t = $(el).text().replace(/\s+/g, ' ').trim();
+    if (t) {
+      text = t;
+      return false; // break
+    }
+  });
+  return text;
+}
+
+/**
+ * Collect unique job URLs from links matching the selector
+ */
+export function collectLinks(
+  $: CheerioAPI,
+  selector: string,
+  baseUrl: string,
+  filter: (url: string) => boolean = () => true
+): string[] {
+  const urls: string[] = [];
+  $(selector).each((_, element) => {
+    const href = $(element).attr('href');
+    if (!href) return;
+    const fullUrl = resolveUrl(href, baseUrl);
+    if (fullUrl && filter(fullUrl) && !urls.includes(fullUrl)) {
+      urls.push(fullUrl);
+    }
+  });
+  return urls;
+}
+
+/**
+ * Find an application email in page text, preferring the "Method of Application" section
+ */
+export function findApplyEmail(fullText: string): string {
+  const methodMatch = fullText.match(/method\s+of\s+application[\s\S]*?([a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,})/i)
+    || fullText.match(/(?:send|email|apply)\s*(?:to|your\s+(?:cv|resume|application))?\s*[:\s]*([a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,})/i);
+  return methodMatch?.[1]?.trim() || '';
+}
+
+/**
+ * Collect list items that follow a bold section header matching the pattern
+ */
+export function listItemsAfterHeader($: CheerioAPI, header: RegExp): string[] {
+  const items: string[] = [];
+  $('strong, b, h2, h3, h4').each((_, el) => {
+    if (!header.test($(el).text().trim())) return;
+    $(el).nextAll('ul').first().find('li').each((__, li) => {
+      const t = $(li).text().trim();
+      if (t && t.length > 5 && !/check how your cv|build your cv/i.test(t)) items.push(t);
+    });
+  });
+  return items;
+}
+
+/**
+ * Build description with section headers for parseJobDescription.
+ * Returns an empty string when the page had none of the sections, so buildScrapedJob
+ * falls back to (and reports) its default description.
+ */
+export function buildDescription(parts: {
+  title: string;
+  company: string;
+  about?: string;
+  responsibilities?: string;
+  qualifications?: string;
+}): string {
+  const { title, company, about, responsibilities, qualifications } = parts;
+  if (!about && !responsibilities && !qualifications) return '';
+  const sections: string[] = [];
+  if (about) sections.push(`About the role:\n${about}`);
+  else sections.push(`About the role:\n${company} is hiring a ${title}.`);
+  if (responsibilities) sections.push(`Responsibilities:\n${responsibilities}`);
+  if (qualifications) sections.push(`Requirements:\n${qualifications}`);
+  return sections.join('\n\n');
+}
+
+/**
+ * Read a "Label: value" line from page text (e.g. "Location: Lagos")
+ */
+export function labeledValue(fullText: string, label: string): string {
+  const match = fullText.match(new RegExp(`(?:^|\\n)\\s*${label}\\s*:\\s*([^\\n]+)`, 'i'));
+  const value = match?.[1]?.trim() || '';
+  return value.length < 120 ? value : '';
+}
+
+/**
+ * Find the application deadline in page text (e.g. "Deadline: Oct 30, 2026") as YYYY-MM-DD.
+ * Mentions without a date ("apply before the deadline") are passed over.
+ */
+export function findDeadline(fullText: string): string {
+  for (const match of fullText.matchAll(/(?:application\s+)?(?:deadline|closing\s+date)\s*:?\s*([^\n]{1,40})/gi)) {
+    const deadline = parseDeadlineDate(match[1]);
+    if (deadline) return deadline;
+  }
+  return '';
+}
+
+/**
+ * Find the stated pay in page text, e.g. "Salary: ₦150,000 - ₦250,000 monthly"
+ */
+export function findSalaryText(fullText: string): string {
+  return labeledValue(fullText, '(?:Salary|Remuneration)(?:\\s+Range)?');
+}
+
+/**
+ * Build a ScrapedJob from structured (JSON-LD) and heuristic (HTML) extraction results.
+ * Structured data wins; heuristics only fill fields it left empty, then defaults apply.
+ * Returns null when title or company can't be found.
+ * @param url The job's page; empty for jobs that have none (e.g. bulk imports), which pass `idKey`
+ * @param idKey What the job ID is generated from, when not the page URL
+ */
+export function buildScrapedJob(
+  source: string,
+  url: string,
+  structured: Partial<ExtractedJobFields>,
+  heuristic: Partial<ExtractedJobFields>,
+  idKey: string = url
+): ScrapedJob | null {
+  const defaults: Partial<ExtractedJobFields> = {
+    location: 'Nigeria',
+    jobType: 'Full Time',
+    applyUrl: url,
+  };
+
+  const fields: Partial<ExtractedJobFields> = {};
+  const fieldSources: ScrapedJob['fieldSources'] = {};
+  const candidates: [ExtractionMethod, Partial<ExtractedJobFields>][] = [
+    ['json-ld', structured],
+    ['html', heuristic],
+    ['default', defaults],
+  ];
+
+  for (const field of EXTRACTED_FIELDS) {
+    for (const [method, values] of candidates) {
+      const value = values[field]?.trim();
+      if (value) {
+        fields[field] = value;
+        fieldSources[field] = method;
+        break;
+      }
+    }
+  }
+
+  const salary = fields.salaryText ? parseSalary(fields.salaryText) : null;
+
+  // Generated "<title> position at <company>" description below
+  if (!fields.description) fieldSources.description = 'default';
+
+  // Skip if we couldn't extract essential data
+  if (!fields.title || !fields.company) {
+    console.log(`Skipping job at ${url || idKey}: missing title or company`);
+    return null;
+  }
+
+  const description = fields.description || `${fields.title} position at ${fields.company}`;
+
+  return {
+    id: generateJobId(idKey),
+    source,
+    title: fields.title,
+    company: fields.company,
+    location: fields.location!,
+    locations: normalizeLocations(fields.location!),
+    jobType: fields.jobType!,
+    description,
+    category: classifyJob(fields.title, description),
+    ...extractQualifications(fields.title, description),
+    applyUrl: fields.applyUrl!,
+    ...(url && { sourceUrl: url }),
+    scrapedAt: new Date().toISOString(),
+    ...(fields.datePosted && { datePosted: fields.datePosted }),
+    ...(fields.validThrough && { validThrough: fields.validThrough }),
+    ...(fields.deadline && { deadline: fields.deadline }),
+    ...(fields.salaryText && { salaryText: fields.salaryText }),
+    ...(salary && { salary }),
+    ...(fields.companyUrl && { companyUrl: fields.companyUrl }),
+    fieldSources,
+  };
+}
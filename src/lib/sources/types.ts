@@ -0,0 +1,38 @@
+import type { ScrapedJob } from '../scraper';
+
+/** Which listings to read and how deep, e.g. for a scrape target covering one industry or location */
+export interface ListingOptions {
+  /** Listings page to start from instead of the source's latest jobs */
+  listingsUrl?: string;
+  /** Listing pages to read (defaults to SCRAPE_MAX_PAGES) */
+  maxPages?: number;
+  /** Keeps a separate crawl cursor, for sources read from several listings */
+  cursorId?: string;
+  /** Time (ms) by which crawling must stop, e.g. the end of a scrape run's time budget */
+  deadline?: number;
+}
+
+/**
+ * A job board (or company career page) the scraper can read from.
+ * Adapters find job URLs on the board's listings and turn each job page into a ScrapedJob.
+ */
+export interface JobSource {
+  /** Stable identifier stored on each job (e.g. "myjobmag") */
+  name: string;
+  /** Human-readable name for reports and the dashboard */
+  label: string;
+  /** Listings page read when no other is given; other listings must be on the same site */
+  defaultListingsUrl: string;
+  /** Check whether a URL is one of this source's job pages (used to import single jobs by URL) */
+  isJobUrl(url: string): boolean;
+  /** Collect job page URLs from the board's latest (or the given) listings, stopping at about `limit` URLs */
+  getJobUrls(limit?: number, options?: ListingOptions): Promise<string[]>;
+  /** Turn a job page's HTML into a ScrapedJob without any network access; null when essential data is missing */
+  parseJobPage(html: string, url: string): ScrapedJob | null;
+  /**
+   * Fetch and parse a single job page; returns null when essential data is missing.
+   * Throws PageUnchangedError when the page hasn't changed since it was last scraped.
+   * Throws TimeBudgetExceededError when the deadline (ms) passes before the page is fetched.
+   */
+  scrapeJobPage(url: string, deadline?: number): Promise<ScrapedJob | null>;
+}
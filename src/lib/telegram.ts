@@ -10,8 +10,10 @@ import axios from 'axios';
 function getTelegramConfig() {
   const botToken = process.env.TELEGRAM_BOT_TOKEN!;
   const channelId = process.env.TELEGRAM_CHANNEL_ID!;
+  // Optional private chat for operational alerts, kept separate from the public channel
+  const adminChatId = process.env.TELEGRAM_ADMIN_CHAT_ID;
   const apiUrl = `https://api.telegram.org/bot${botToken}`;
-  return { botToken, channelId, apiUrl };
+  return { botToken, channelId, adminChatId, apiUrl };
 }
 
 export interface TelegramPostResult {
@@ -22,10 +24,12 @@ export interface TelegramPostResult {
 
 /**
  * Post a message to Telegram channel
+ * @param previewImageUrl Image shown as the link preview above a text post (e.g. a company logo)
  */
 export async function postToTelegram(
   message: string,
-  imageBase64?: string
+  imageBase64?: string,
+  previewImageUrl?: string
 ): Promise<TelegramPostResult> {
   try {
     if (imageBase64) {
@@ -33,7 +37,7 @@ export async function postToTelegram(
       return await postPhotoToTelegram(message, imageBase64);
     } else {
       // Post text only
-      return await postTextToTelegram(message);
+      return await postTextToTelegram(message, undefined, previewImageUrl);
     }
   } catch (error) {
     console.error('Telegram posting error:', error);
@@ -45,16 +49,83 @@ export async function postToTelegram(
 }
 
 /**
- * Post text message to Telegram
+ * Send an alert to the admin chat (TELEGRAM_ADMIN_CHAT_ID).
+ * Does nothing when no admin chat is configured.
  */
-async function postTextToTelegram(message: string): Promise<TelegramPostResult> {
+export async function sendAdminAlert(message: string): Promise<TelegramPostResult> {
+  const { adminChatId } = getTelegramConfig();
+  if (!adminChatId) {
+    console.log('TELEGRAM_ADMIN_CHAT_ID not set - skipping admin alert');
+    return { success: false, error: 'Admin chat not configured' };
+  }
+
+  try {
+    return await postTextToTelegram(message, adminChatId);
+  } catch (error) {
+    console.error('Telegram admin alert error:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+  }
+}
+
+/**
+ * Get the extra channel for each job category (TELEGRAM_CATEGORY_CHANNELS,
+ * comma-separated "category:chatId" pairs, e.g. "tech:@naijatechjobs,finance:-1001234")
+ */
+function getCategoryChannels(): Map<string, string> {
+  const channels = new Map<string, string>();
+  for (const entry of (process.env.TELEGRAM_CATEGORY_CHANNELS ?? '').split(',')) {
+    const separator = entry.indexOf(':');
+    if (separator <= 0) continue;
+    const category = entry.slice(0, separator).trim().toLowerCase();
+    const chatId = entry.slice(separator + 1).trim();
+    if (category && chatId) channels.set(category, chatId);
+  }
+  return channels;
+}
+
+/**
+ * Post a job message to its category's channel as well as the main one.
+ * @returns null when the category has no channel of its own
+ */
+export async function postToCategoryChannel(
+  category: string,
+  message: string,
+  previewImageUrl?: string
+): Promise<TelegramPostResult | null> {
+  const chatId = getCategoryChannels().get(category);
+  if (!chatId) return null;
+
+  try {
+    return await postTextToTelegram(message, chatId, previewImageUrl);
+  } catch (error) {
+    console.error(`Telegram category channel (${category}) error:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+  }
+}
+
+/**
+ * Post text message to Telegram (the channel, unless another chat is given)
+ */
+async function postTextToTelegram(
+  message: string,
+  chatId?: string,
+  previewImageUrl?: string
+): Promise<TelegramPostResult> {
   const { channelId, apiUrl } = getTelegramConfig();
 
   const response = await axios.post(`${apiUrl}/sendMessage`, {
-    chat_id: channelId,
+    chat_id: chatId ?? channelId,
     text: message,
     parse_mode: 'HTML',
-    disable_web_page_preview: false,
+    ...(previewImageUrl
+      ? { link_preview_options: { url: previewImageUrl, prefer_small_media: true, show_above_text: true } }
+      : { disable_web_page_preview: false }),
   });
 
   if (response.data.ok) {
@@ -0,0 +1,75 @@
+/**
+ * The app's timezone (APP_TIMEZONE, default Africa/Lagos). Day boundaries for date-keyed
+ * Redis data (history, duplicates, crawl cursors), the posting schedule and times shown
+ * on the dashboard all follow it, so "today" matches the working day rather than UTC.
+ */
+
+export const DEFAULT_TIMEZONE = 'Africa/Lagos';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formats = new Map<string, Intl.DateTimeFormat>();
+
+function formatFor(timeZone: string): Intl.DateTimeFormat {
+  let format = formats.get(timeZone);
+  if (!format) {
+    format = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    });
+    formats.set(timeZone, format);
+  }
+  return format;
+}
+
+/**
+ * Get the configured IANA timezone; an unknown name falls back to the default
+ */
+export function getTimezone(): string {
+  const timeZone = process.env.APP_TIMEZONE?.trim();
+  if (!timeZone) return DEFAULT_TIMEZONE;
+  try {
+    formatFor(timeZone);
+    return timeZone;
+  } catch {
+    console.error(`Unknown APP_TIMEZONE "${timeZone}", using ${DEFAULT_TIMEZONE}`);
+    return DEFAULT_TIMEZONE;
+  }
+}
+
+/**
+ * The local date (YYYY-MM-DD) and minutes since local midnight of an instant
+ */
+export function localParts(instant: Date | number = new Date(), timeZone: string = getTimezone()): { date: string; minutes: number } {
+  const parts = Object.fromEntries(formatFor(timeZone).formatToParts(instant).map((p) => [p.type, p.value]));
+  return { date: `${parts.year}-${parts.month}-${parts.day}`, minutes: Number(parts.hour) * 60 + Number(parts.minute) };
+}
+
+/**
+ * The local date (YYYY-MM-DD) of an instant, e.g. for date-keyed Redis data
+ */
+export function localDateKey(instant: Date | number = new Date(), timeZone: string = getTimezone()): string {
+  return localParts(instant, timeZone).date;
+}
+
+/**
+ * The instant a local date and time fall on
+ */
+export function localToInstant(date: string, minutes: number, timeZone: string = getTimezone()): Date {
+  const guess = Date.parse(`${date}T00:00:00Z`) + minutes * 60 * 1000;
+  const shown = localParts(guess, timeZone);
+  const offset = Date.parse(`${shown.date}T00:00:00Z`) + shown.minutes * 60 * 1000 - guess;
+  return new Date(guess - offset);
+}
+
+/**
+ * Add days to a YYYY-MM-DD date
+ */
+export function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().split('T')[0];
+}
@@ -2,6 +2,10 @@
  * Utility functions for text processing and character counting
  */
 
+import { getLocationHashtags, normalizeLocations, NormalizedLocation } from './locations';
+import { categoryOf, classifyJob, getCategory, JobCategoryId } from './categories';
+import { ExperienceRange, extractQualifications, formatQualifications, JobQualifications, Seniority } from './qualifications';
+
 export const X_CHAR_LIMIT = 280;
 export const X_PREMIUM_CHAR_LIMIT = 25000;
 export const X_THREAD_LIMIT = 270; // Leave room for (1/n) suffix
@@ -21,6 +25,16 @@ export function getXThreadLimit(): number {
     : X_THREAD_LIMIT;
 }
 
+export type SalaryPeriod = 'hour' | 'day' | 'week' | 'month' | 'year';
+
+/** Normalized pay range; min and max are equal for a single figure */
+export interface Salary {
+  min: number;
+  max: number;
+  currency: string; // ISO code, e.g. "NGN"
+  period: SalaryPeriod;
+}
+
 export interface JobData {
   title: string;
   company: string;
@@ -29,6 +43,8 @@ export interface JobData {
   description: string;
   applyLink: string;
   hashtags: string[];
+  salary?: Salary;
+  category?: JobCategoryId;
   image?: string; // base64 encoded image
 }
 
@@ -81,7 +97,8 @@ export function parseJobDescription(raw: string): string {
 
   for (const { key, pattern } of SECTION_PATTERNS) {
     let m: RegExpExecArray | null;
-    const re = new RegExp(pattern.source, pattern.flags);
+    // Global flag so exec() advances through every header instead of re-matching the first
+    const re = new RegExp(pattern.source, `${pattern.flags}g`);
     while ((m = re.exec(trimmed)) !== null) {
       matches.push({ key, index: m.index, length: m[0].length });
     }
@@ -150,6 +167,12 @@ export interface ParsedJob {
   jobType: string;
   description: string;
   applyLink: string;
+  salary?: Salary;
+  category?: JobCategoryId;
+  experienceYears?: ExperienceRange;
+  seniority?: Seniority;
+  education?: string[];
+  certifications?: string[];
   suggestedHashtags: string[];
 }
 
@@ -289,6 +312,12 @@ export function parsePastedJob(raw: string): ParsedJob {
   desc = desc.replace(/\n{3,}/g, '\n\n').trim();
   if (desc) result.description = parseJobDescription(desc);
 
+  const salary = parseSalary(text);
+  if (salary) result.salary = salary;
+
+  if (result.title) result.category = classifyJob(result.title, result.description);
+  Object.assign(result, extractQualifications(result.title, text));
+
   result.suggestedHashtags = suggestHashtags(result);
   return result;
 }
@@ -300,14 +329,10 @@ export function suggestHashtags(parsed: Partial<ParsedJob>): string[] {
   const tags = new Set<string>(['hiring', 'jobopening', 'jobs']);
 
   if (parsed.title) {
-    const title = parsed.title.toLowerCase();
-    if (/engineer|developer|dev/i.test(title)) tags.add('techjobs');
-    if (/software|swe|sde/i.test(title)) tags.add('softwareengineering');
-    if (/designer|design/i.test(title)) tags.add('design');
-    if (/manager|lead|director/i.test(title)) tags.add('leadership');
-    if (/data|analyst|scientist/i.test(title)) tags.add('data');
-    if (/product/i.test(title)) tags.add('productmanagement');
-    if (/remote/i.test(title)) tags.add('remotework');
+    const category = parsed.category ?? classifyJob(parsed.title, parsed.description);
+    if (category !== 'other') tags.add(getCategory(category).hashtag.toLowerCase());
+    if (/manager|lead|director/i.test(parsed.title)) tags.add('leadership');
+    if (/remote/i.test(parsed.title)) tags.add('remotework');
   }
 
   if (parsed.jobType) {
@@ -406,7 +431,7 @@ export function formatApplySection(
  * Strip metadata clutter from description (dates, location/type lines, title repetition)
  */
 export function stripMetadataFromDescription(desc: string): string {
-  let out = desc
+  const out = desc
     .replace(/\b(?:Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec)[a-z]*,?\s*\d{4}\b/gi, '')
     .replace(/\b(?:January|February|March|April|May|June|July|August|September|October|November|December),?\s*\d{4}\b/gi, '')
     .replace(/\b(?:January|February|March|April|May|June|July|August|September|October|November|December),?\s*/gi, '')
@@ -489,6 +514,7 @@ export function formatTwitterMessage(job: JobData): string {
   const metaLines: string[] = [];
   if (locationLine) metaLines.push(locationLine);
   if (typeLine) metaLines.push(typeLine);
+  if (job.salary) metaLines.push(`Salary: ${formatSalary(job.salary)}`);
   const metaBlock = metaLines.length > 0 ? '\n' + metaLines.join('\n') + '\n\n' : '\n\n';
 
   const applySection = formatApplySection(job.applyLink, job.company, false);
@@ -518,6 +544,7 @@ export function formatTelegramMessage(job: JobData): string {
   if (job.company.trim()) metaLines.push(`<b>Company:</b> ${job.company}`);
   if (job.location.trim()) metaLines.push(`<b>Location:</b> ${job.location}`);
   if (job.jobType.trim()) metaLines.push(`<b>Type:</b> ${job.jobType}`);
+  if (job.salary) metaLines.push(`<b>Salary:</b> ${formatSalary(job.salary)}`);
   const metaBlock = metaLines.length > 0 ? metaLines.join('\n') + '\n\n' : '';
 
   const intro = firstSentence
@@ -620,6 +647,183 @@ export function getCharacterStatus(text: string): {
   };
 }
 
+// ============================================
+// SALARY
+// ============================================
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  NGN: '₦',
+  USD: '$',
+  GBP: '£',
+  EUR: '€',
+};
+
+/** Currency markers as written in listings, mapped to ISO codes */
+const CURRENCY_PATTERNS: { currency: string; pattern: RegExp }[] = [
+  { currency: 'NGN', pattern: /₦|\bNGN\b|\bnaira\b/i },
+  { currency: 'USD', pattern: /\$|\bUSD\b|\bdollars?\b/i },
+  { currency: 'GBP', pattern: /£|\bGBP\b|\bpounds?\b/i },
+  { currency: 'EUR', pattern: /€|\bEUR\b|\beuros?\b/i },
+];
+
+const PERIOD_PATTERNS: { period: SalaryPeriod; pattern: RegExp }[] = [
+  { period: 'year', pattern: /per\s+annum|p\.?\s?a\b|annual(?:ly)?|yearly|per\s+year|\/\s*(?:yr|year)|a\s+year/i },
+  { period: 'month', pattern: /monthly|per\s+month|\/\s*(?:mo|month)|a\s+month|\bpm\b/i },
+  { period: 'week', pattern: /weekly|per\s+week|\/\s*(?:wk|week)/i },
+  { period: 'day', pattern: /daily|per\s+day|\/\s*day/i },
+  { period: 'hour', pattern: /hourly|per\s+hour|\/\s*(?:hr|hour)/i },
+];
+
+/** Approximate working time used to compare pay across periods */
+const MONTHLY_MULTIPLIERS: Record<SalaryPeriod, number> = {
+  hour: 8 * 22,
+  day: 22,
+  week: 52 / 12,
+  month: 1,
+  year: 1 / 12,
+};
+
+/**
+ * A bare "N" before an amount, e.g. "N150,000". Capital only and directly before the digits,
+ * so "n 500" and "No. 5" aren't read as naira.
+ */
+const BARE_NAIRA = /(?<![A-Za-z\d])N(?=\s?\d)/;
+
+/**
+ * Amount with optional currency marker and k/m suffix, e.g. "₦150,000", "N2.4m", "$50k".
+ * Case-sensitive so a lowercase "n" is never a marker.
+ */
+const AMOUNT_SOURCE = String.raw`(?<![A-Za-z\d])(?:₦|NGN|N|\$|USD|£|GBP|€|EUR)?\s?\d[\d,]*(?:\.\d+)?\s?(?:[kKmM]|[Mm]illion|[Tt]housand)?\b`;
+const SALARY_REGEX = new RegExp(`(${AMOUNT_SOURCE})(?:\\s*(?:-|–|to)\\s*(${AMOUNT_SOURCE}))?`, 'g');
+
+function parseAmount(raw: string): number {
+  const match = raw.replace(/,/g, '').match(/(\d+(?:\.\d+)?)\s?(k|m|million|thousand)?/i);
+  if (!match) return NaN;
+  const value = parseFloat(match[1]);
+  const suffix = match[2]?.toLowerCase();
+  if (suffix === 'k' || suffix === 'thousand') return value * 1_000;
+  if (suffix === 'm' || suffix === 'million') return value * 1_000_000;
+  return value;
+}
+
+function detectCurrency(text: string): string {
+  return CURRENCY_PATTERNS.find(({ pattern }) => pattern.test(text))?.currency ?? '';
+}
+
+/**
+ * Find and normalize a salary in free text, e.g. "₦150,000 - ₦250,000 monthly" or "N2.4m per annum".
+ * Only amounts with a currency marker (or a "Salary:" label) are considered.
+ * The period defaults to monthly, which is how most Nigerian listings state pay.
+ */
+export function parseSalary(text: string): Salary | null {
+  const labeled = text.match(/\b(?:salary|remuneration|pay)\b\s*(?:range)?\s*:?\s*([^\n]{1,80})/i)?.[1];
+  const candidates = labeled ? [labeled, text] : [text];
+
+  for (const candidate of candidates) {
+    for (const match of candidate.matchAll(SALARY_REGEX)) {
+      const [expression, low, high] = match;
+      const markedCurrency = detectCurrency(expression);
+      const statedCurrency = markedCurrency || (BARE_NAIRA.test(expression) ? 'NGN' : '');
+      const currency = statedCurrency || (candidate === labeled ? 'NGN' : '');
+      if (!currency) continue;
+
+      const min = parseAmount(low);
+      const max = high ? parseAmount(high) : min;
+      if (!isFinite(min) || !isFinite(max) || min <= 0) continue;
+      // Unmarked numbers after a label, and bare "N" amounts ("Grade N 10"), only count when they look like naira pay
+      if (!markedCurrency && max < 1000) continue;
+
+      const after = candidate.slice((match.index ?? 0) + expression.length, (match.index ?? 0) + expression.length + 25);
+      const period = PERIOD_PATTERNS.find(({ pattern }) => pattern.test(after))?.period ?? 'month';
+
+      return { min: Math.min(min, max), max: Math.max(min, max), currency, period };
+    }
+  }
+  return null;
+}
+
+/** Convert a salary's upper figure to an approximate monthly amount */
+export function toMonthlyAmount(salary: Salary): number {
+  return salary.max * MONTHLY_MULTIPLIERS[salary.period];
+}
+
+function formatAmount(amount: number, currency: string): string {
+  const symbol = CURRENCY_SYMBOLS[currency] ?? `${currency} `;
+  if (amount >= 1_000_000) {
+    return `${symbol}${parseFloat((amount / 1_000_000).toFixed(2))}M`;
+  }
+  return `${symbol}${Math.round(amount).toLocaleString('en-US')}`;
+}
+
+/** Format a salary for posts, e.g. "₦150,000 - ₦250,000 per month" */
+export function formatSalary(salary: Salary): string {
+  const range = salary.min === salary.max
+    ? formatAmount(salary.min, salary.currency)
+    : `${formatAmount(salary.min, salary.currency)} - ${formatAmount(salary.max, salary.currency)}`;
+  return `${range} per ${salary.period}`;
+}
+
+// ============================================
+// APPLICATION DEADLINES
+// ============================================
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+/** Jobs closing within this many days are posted first */
+export const CLOSING_SOON_DAYS = 3;
+
+function toDateKey(year: number, month: number, day: number): string {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return '';
+  }
+  return date.toISOString().split('T')[0];
+}
+
+/**
+ * Parse an application deadline into YYYY-MM-DD.
+ * Accepts ISO dates, day-first numeric dates (30/10/2026) and written dates
+ * ("Oct 30, 2026", "30th October, 2026"). Returns an empty string when no date is found.
+ */
+export function parseDeadlineDate(text: string): string {
+  const val = text.trim();
+  if (!val) return '';
+
+  const iso = val.match(/\b(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) return toDateKey(+iso[1], +iso[2], +iso[3]);
+
+  const numeric = val.match(/\b(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})\b/);
+  if (numeric) return toDateKey(+numeric[3], +numeric[2], +numeric[1]);
+
+  const monthNames = '(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\\.?';
+  const dayFirst = val.match(new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)?\\s+(?:of\\s+)?${monthNames},?\\s+(\\d{4})`, 'i'));
+  if (dayFirst) return toDateKey(+dayFirst[3], MONTHS.indexOf(dayFirst[2].toLowerCase()) + 1, +dayFirst[1]);
+
+  const monthFirst = val.match(new RegExp(`\\b${monthNames}\\s+(\\d{1,2})(?:st|nd|rd|th)?,?\\s+(\\d{4})`, 'i'));
+  if (monthFirst) return toDateKey(+monthFirst[3], MONTHS.indexOf(monthFirst[1].toLowerCase()) + 1, +monthFirst[2]);
+
+  return '';
+}
+
+/** Check if a YYYY-MM-DD deadline is before the given day */
+export function isDeadlinePassed(deadline: string | undefined, today: string): boolean {
+  return !!deadline && deadline < today;
+}
+
+/** Check if a YYYY-MM-DD deadline falls within CLOSING_SOON_DAYS of the given day */
+export function isClosingSoon(deadline: string | undefined, today: string): boolean {
+  if (!deadline || deadline < today) return false;
+  const days = (Date.parse(deadline) - Date.parse(today)) / (24 * 60 * 60 * 1000);
+  return days <= CLOSING_SOON_DAYS;
+}
+
+/** Format a YYYY-MM-DD deadline for posts, e.g. "30 Oct 2026" */
+export function formatDeadline(deadline: string): string {
+  const date = new Date(`${deadline}T00:00:00Z`);
+  if (isNaN(date.getTime())) return deadline;
+  return date.toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric', timeZone: 'UTC' });
+}
+
 // ============================================
 // CONCISE FORMATTERS FOR AUTOMATED POSTING
 // ============================================
@@ -632,7 +836,18 @@ export interface ConciseJobData {
   jobType: string;
   description: string;
   applyUrl: string;
-  sourceUrl: string;
+  sourceUrl?: string;
+  /** Application deadline (YYYY-MM-DD) */
+  deadline?: string;
+  salary?: Salary;
+  /** "About the company" text from the company's profile */
+  companyAbout?: string;
+  /** Structured locations; normalized from `location` when missing */
+  locations?: NormalizedLocation[];
+  /** Classified from title and description when missing */
+  category?: JobCategoryId;
+  /** Experience, education and certification requirements */
+  qualifications?: JobQualifications;
 }
 
 /** Job-relevant keywords to prefer from trending hashtags */
@@ -647,12 +862,8 @@ const JOB_RELEVANT_KEYWORDS = /job|hire|career|lagos|nigeria|remote|tech|work|re
 export function generateJobHashtags(job: ConciseJobData, trendingHashtags?: string[]): string[] {
   const jobTags: string[] = [];
 
-  // Location-based hashtags
-  const locationLower = job.location.toLowerCase();
-  if (locationLower.includes('lagos')) jobTags.push('Lagos');
-  if (locationLower.includes('abuja')) jobTags.push('Abuja');
-  if (locationLower.includes('port harcourt')) jobTags.push('PortHarcourt');
-  if (locationLower.includes('remote')) jobTags.push('RemoteJobs');
+  // Location-based hashtags (state hashtags such as Lagos, Abuja, PortHarcourt, plus RemoteJobs)
+  jobTags.push(...getLocationHashtags(job.locations ?? normalizeLocations(job.location)));
 
   // Job type hashtags
   const typeLower = job.jobType.toLowerCase();
@@ -661,16 +872,10 @@ export function generateJobHashtags(job: ConciseJobData, trendingHashtags?: stri
   if (typeLower.includes('intern')) jobTags.push('Internship');
   if (typeLower.includes('contract')) jobTags.push('Contract');
 
-  // Title-based hashtags
-  const titleLower = job.title.toLowerCase();
-  if (/engineer|developer|programmer|software/i.test(titleLower)) jobTags.push('TechJobs');
-  if (/manager|management/i.test(titleLower)) jobTags.push('Management');
-  if (/sales|business\s+development/i.test(titleLower)) jobTags.push('Sales');
-  if (/marketing|brand/i.test(titleLower)) jobTags.push('Marketing');
-  if (/finance|accountant|accounting/i.test(titleLower)) jobTags.push('Finance');
-  if (/hr|human\s+resource/i.test(titleLower)) jobTags.push('HR');
-  if (/design|creative/i.test(titleLower)) jobTags.push('Design');
-  if (/data|analyst/i.test(titleLower)) jobTags.push('DataJobs');
+  // Category hashtag (TechJobs, Finance, HealthcareJobs, ...)
+  const category = categoryOf(job);
+  if (category !== 'other') jobTags.push(getCategory(category).hashtag);
+  if (/manager|management/i.test(job.title)) jobTags.push('Management');
 
   // Always include these if not already present
   if (!jobTags.some((t) => /nigeriajobs/i.test(t))) jobTags.unshift('NigeriaJobs');
@@ -712,7 +917,11 @@ export function formatConciseTwitterJob(job: ConciseJobData, trendingHashtags?:
   const hashtags = generateJobHashtags(job, trendingHashtags);
   const hashtagStr = hashtags.map(t => `#${t}`).join(' ');
 
-  const header = `${job.title} at ${job.company}`;
+  const salaryLine = job.salary ? `\nSalary: ${formatSalary(job.salary)}` : '';
+  const requirements = job.qualifications ? formatQualifications(job.qualifications) : '';
+  const requirementsLine = requirements ? `\n${requirements}` : '';
+  const closesLine = job.deadline ? `\nCloses on ${formatDeadline(job.deadline)}` : '';
+  const header = `${job.title} at ${job.company}${salaryLine}${requirementsLine}${closesLine}`;
   const sanitized = stripMetadataFromDescription(job.description);
   const parsedDesc = parseJobDescription(sanitized);
   const withAbout = ensureAboutSection(parsedDesc, job.company, job.title);
@@ -742,7 +951,11 @@ ${hashtagStr}`;
  * Designed for automated posting - clean and readable
  */
 export function formatConciseTelegramJob(job: ConciseJobData): string {
-  const header = `<b>${escapeHtml(job.title)} at ${escapeHtml(job.company)}</b>`;
+  const salaryLine = job.salary ? `\n<b>Salary:</b> ${formatSalary(job.salary)}` : '';
+  const requirements = job.qualifications ? formatQualifications(job.qualifications) : '';
+  const requirementsLine = requirements ? `\n<b>Requirements:</b> ${escapeHtml(requirements)}` : '';
+  const closesLine = job.deadline ? `\n<b>Closes on:</b> ${formatDeadline(job.deadline)}` : '';
+  const header = `<b>${escapeHtml(job.title)} at ${escapeHtml(job.company)}</b>${salaryLine}${requirementsLine}${closesLine}`;
 
   const sanitized = stripMetadataFromDescription(job.description);
   const parsedDesc = parseJobDescription(sanitized);
@@ -753,18 +966,21 @@ export function formatConciseTelegramJob(job: ConciseJobData): string {
     : '';
 
   const applySection = formatApplySection(job.applyUrl, job.company, true, job.sourceUrl);
+  const companySection = job.companyAbout
+    ? `<b>About the company:</b>\n${escapeHtml(truncateForTwitter(job.companyAbout, 400))}\n\n`
+    : '';
 
   return `${header}
 
 ${intro}${withAbout}
 
-${applySection}`;
+${companySection}${applySection}`;
 }
 
 /**
  * Escape HTML special characters for Telegram
  */
-function escapeHtml(text: string): string {
+export function escapeHtml(text: string): string {
   return text
     .replace(/&/g, '&amp;')
     .replace(/</g, '&lt;')